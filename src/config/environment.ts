@@ -6,7 +6,7 @@ dotenv.config();
 
 export const validateEnvironment = () => {
   const required = ['INTERNAL_API_KEY', 'SUPABASE_URL', 'SUPABASE_ANON_KEY', 'UPSTASH_REDIS_REST_URL', 'UPSTASH_REDIS_REST_TOKEN'];
-  const optional = ['TMDB_API_KEY', 'ONESIGNAL_APP_ID', 'ONESIGNAL_REST_API_KEY', 'POSTHOG_API_KEY', 'SENTRY_DSN', 'CLOUDFLARE_API_TOKEN', 'CLOUDFLARE_ZONE_ID', 'BETTER_UPTIME_API_KEY', 'BETTER_UPTIME_HEARTBEAT_URL'];
+  const optional = ['TMDB_API_KEY', 'ONESIGNAL_APP_ID', 'ONESIGNAL_REST_API_KEY', 'POSTHOG_API_KEY', 'SENTRY_DSN', 'CLOUDFLARE_API_TOKEN', 'CLOUDFLARE_ZONE_ID', 'BETTER_UPTIME_API_KEY', 'BETTER_UPTIME_HEARTBEAT_URL', 'EMBED_SIGNING_SECRET'];
   const missing = required.filter(envVar => !env[envVar]);
 
   if (missing.length > 0) {
@@ -26,6 +26,10 @@ export const validateEnvironment = () => {
     throw new Error('SUPABASE_ANON_KEY is empty');
   }
 
+  if (env.EMBED_SIGNING_SECRET && env.EMBED_SIGNING_SECRET.length < 32) {
+    throw new Error('EMBED_SIGNING_SECRET must be at least 32 characters');
+  }
+
   // Validate API keys are not empty (if provided)
   if (env.TMDB_API_KEY && env.TMDB_API_KEY.trim() === '') {
     throw new Error('TMDB_API_KEY is empty');
@@ -76,11 +80,22 @@ export const CSRF_PROTECTION_ENABLED = env.CSRF_PROTECTION_ENABLED === 'true';
 export const SSL_ENFORCEMENT_ENABLED = env.SSL_ENFORCEMENT_ENABLED !== 'false';
 export const MAX_TOKEN_ROTATIONS = parseInt(env.MAX_TOKEN_ROTATIONS || '5');
 
+export const EMBED_SIGNING_SECRET = env.EMBED_SIGNING_SECRET || '';
+export const EMBED_SIGNED_URL_TTL = parseInt(env.EMBED_SIGNED_URL_TTL || '3600'); // seconds
+export const EMBED_VIEWER_SESSION_TTL = parseInt(env.EMBED_VIEWER_SESSION_TTL || '86400'); // seconds
+export const PUBLIC_API_URL = env.PUBLIC_API_URL || `https://${env.RAILWAY_PUBLIC_DOMAIN || 'localhost:3001'}`;
+
 // =================================================================
 // EXTERNAL APIs
 // =================================================================
 export const TMDB_API_URL = env.TMDB_API_URL || 'https://api.themoviedb.org/3';
 export const TMDB_API_KEY = env.TMDB_API_KEY || '';
+export const TMDB_IMAGE_BASE_URL = env.TMDB_IMAGE_BASE_URL || 'https://image.tmdb.org/t/p/w500';
+export const TMDB_CACHE_TTL = parseInt(env.TMDB_CACHE_TTL || '86400');
+
+// Subtitle index queried alongside provider subtitle sources; placeholders as in ProviderConfig.subtitleUrl
+export const SUBTITLE_INDEX_URL = env.SUBTITLE_INDEX_URL || '';
+export const SUBTITLE_CACHE_TTL = parseInt(env.SUBTITLE_CACHE_TTL || '21600'); // seconds
 
 export const TRAKT_API_URL = env.TRAKT_API_URL || 'https://api.trakt.tv';
 export const TRAKT_CLIENT_ID = env.TRAKT_CLIENT_ID || '';
@@ -120,17 +135,38 @@ export const SWAGGER_HOST = env.SWAGGER_HOST || 'localhost:3001';
 // =================================================================
 export const WEBSOCKET_URL = env.WEBSOCKET_URL || 'ws://localhost:3001';
 export const WS_MAX_CONNECTIONS = parseInt(env.WS_MAX_CONNECTIONS || '1000');
+export const CHAT_HISTORY_SIZE = parseInt(env.CHAT_HISTORY_SIZE || '200'); // Messages kept per room
+export const CHAT_MESSAGE_MAX_LENGTH = parseInt(env.CHAT_MESSAGE_MAX_LENGTH || '500');
+export const ROOM_QUEUE_MAX_SIZE = parseInt(env.ROOM_QUEUE_MAX_SIZE || '50'); // Items waiting per room
 
 // =================================================================
 // PROVIDER CONFIGURATION
 // =================================================================
 export const VIDNEST_BASE_URL = env.VIDNEST_BASE_URL || 'https://vidnest.fun';
+export const VIDSRC_BASE_URL = env.VIDSRC_BASE_URL || 'https://vidsrc.to';
+export const EMBED_STREAM_BASE_URL = env.EMBED_STREAM_BASE_URL || 'https://embed.stream';
+export const PROVIDERS_CONFIG_PATH = env.PROVIDERS_CONFIG_PATH || '';
+export const PROVIDER_CACHE_TTL = parseInt(env.PROVIDER_CACHE_TTL || '3600');
+export const PROVIDER_REGISTRY_SYNC_MS = parseInt(env.PROVIDER_REGISTRY_SYNC_MS || '30000'); // How often stored provider changes and maintenance windows are re-read
+export const EMBED_VERIFICATION_TTL = parseInt(env.EMBED_VERIFICATION_TTL || '3600'); // Seconds a probe result is reused
+export const EMBED_VERIFICATION_TIMEOUT = parseInt(env.EMBED_VERIFICATION_TIMEOUT || '3000');
+export const PROVIDER_FALLBACK_ORDER = (env.PROVIDER_FALLBACK_ORDER || '').split(',').map(id => id.trim()).filter(Boolean);
+export const EMBED_BATCH_MAX_ITEMS = parseInt(env.EMBED_BATCH_MAX_ITEMS || '50');
+
+// Request header our edge sets to the caller's ISO country code, used when no country is passed explicitly
+export const COUNTRY_HEADER = (env.COUNTRY_HEADER || 'cf-ipcountry').toLowerCase();
+
+// Outbound proxies for provider and metadata requests (comma-separated http(s) URLs)
+export const PROXY_URLS = (env.PROXY_URLS || '').split(',').map(url => url.trim()).filter(Boolean);
+export const PROXY_FAILURE_THRESHOLD = parseInt(env.PROXY_FAILURE_THRESHOLD || '3');
+export const PROXY_QUARANTINE_MS = parseInt(env.PROXY_QUARANTINE_MS || '300000');
 
 // =================================================================
 // LOGGING & MONITORING
 // =================================================================
 export const LOG_LEVEL = env.LOG_LEVEL || 'info';
 export const HEALTH_CHECK_TIMEOUT = parseInt(env.HEALTH_CHECK_TIMEOUT || '3000');
+export const PROVIDER_HEALTH_CHECK_INTERVAL_MS = parseInt(env.PROVIDER_HEALTH_CHECK_INTERVAL_MS || '60000');
 
 // =================================================================
 // FEATURE FLAGS
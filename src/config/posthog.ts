@@ -71,7 +71,8 @@ export const trackProviderRequest = async (
   responseTime: number,
   success: boolean,
   errorMessage?: string,
-  userId?: string
+  userId?: string,
+  metadata?: Record<string, any>
 ) => {
   if (!isPostHogInitialized) return;
 
@@ -81,6 +82,7 @@ export const trackProviderRequest = async (
     success,
     errorMessage,
     userId,
+    ...metadata,
     service: 'providers-backend',
     category: 'provider_performance'
   });
@@ -0,0 +1,84 @@
+import { readFileSync } from 'fs';
+import { logger } from '../utils/logger';
+import { ProviderConfig } from '../types/index';
+import { VIDNEST_BASE_URL, VIDSRC_BASE_URL, EMBED_STREAM_BASE_URL, PROVIDERS_CONFIG_PATH } from './environment';
+
+const DEFAULT_IFRAME_TEMPLATE = '<iframe src="{embedUrl}"{attributes} frameBorder="0" scrolling="no" allowFullScreen></iframe>';
+
+const DEFAULT_IFRAME_ATTRIBUTES = {
+  allow: 'autoplay; fullscreen; encrypted-media; picture-in-picture'
+};
+
+// Built-in providers used when no config file is supplied
+export const defaultProviders: ProviderConfig[] = [
+  {
+    id: 'vidnest',
+    name: 'Vidnest',
+    baseUrl: VIDNEST_BASE_URL,
+    enabled: true,
+    iframeTemplate: DEFAULT_IFRAME_TEMPLATE,
+    iframeAttributes: DEFAULT_IFRAME_ATTRIBUTES,
+    playerParams: {
+      autoplay: 'autoplay',
+      startTime: 'startAt',
+      themeColor: 'color'
+    },
+    animeVariants: ['sub', 'dub'],
+    healthCheckUrl: VIDNEST_BASE_URL,
+    rateLimit: {
+      requests: 100,
+      windowMs: 60000 // 1 minute
+    }
+  },
+  {
+    id: 'vidsrc',
+    name: 'VidSrc',
+    baseUrl: VIDSRC_BASE_URL,
+    enabled: true,
+    iframeTemplate: DEFAULT_IFRAME_TEMPLATE,
+    iframeAttributes: DEFAULT_IFRAME_ATTRIBUTES,
+    playerParams: {
+      autoplay: 'autoplay',
+      subtitleLang: 'ds_lang'
+    },
+    healthCheckUrl: VIDSRC_BASE_URL,
+    rateLimit: {
+      requests: 100,
+      windowMs: 60000
+    }
+  },
+  {
+    id: 'embedstream',
+    name: 'Embed Stream',
+    baseUrl: EMBED_STREAM_BASE_URL,
+    enabled: true,
+    iframeTemplate: DEFAULT_IFRAME_TEMPLATE,
+    iframeAttributes: DEFAULT_IFRAME_ATTRIBUTES,
+    healthCheckUrl: EMBED_STREAM_BASE_URL,
+    rateLimit: {
+      requests: 100,
+      windowMs: 60000
+    }
+  }
+];
+
+// Load provider definitions from PROVIDERS_CONFIG_PATH (a JSON array of ProviderConfig),
+// falling back to the built-in defaults if the file is missing or unreadable
+export const loadProviderConfigFile = (path: string = PROVIDERS_CONFIG_PATH): ProviderConfig[] => {
+  if (!path) {
+    return defaultProviders;
+  }
+
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf8'));
+    if (!Array.isArray(parsed)) {
+      throw new Error('Provider config file must contain a JSON array');
+    }
+
+    logger.info(`Loaded ${parsed.length} providers from ${path}`);
+    return parsed as ProviderConfig[];
+  } catch (error) {
+    logger.error(`Failed to load provider config file ${path}, using defaults:`, error);
+    return defaultProviders;
+  }
+};
@@ -99,10 +99,26 @@ class UpstashRedisClient {
     return await this.request(`zrange/${params.join('/')}`);
   }
 
+  async zremrangebyscore(key: string, min: number, max: number): Promise<any> {
+    return await this.request(`zremrangebyscore/${encodeURIComponent(key)}/${min}/${max}`, 'POST');
+  }
+
+  async zremrangebyrank(key: string, start: number, stop: number): Promise<any> {
+    return await this.request(`zremrangebyrank/${encodeURIComponent(key)}/${start}/${stop}`, 'POST');
+  }
+
   async zcard(key: string): Promise<any> {
     return await this.request(`zcard/${encodeURIComponent(key)}`);
   }
 
+  async sadd(key: string, member: string): Promise<any> {
+    return await this.request(`sadd/${encodeURIComponent(key)}/${encodeURIComponent(member)}`, 'POST');
+  }
+
+  async smembers(key: string): Promise<any> {
+    return await this.request(`smembers/${encodeURIComponent(key)}`);
+  }
+
   async hset(key: string, field: string, value: string): Promise<any> {
     return await this.request('hset', 'POST', {
       key,
@@ -126,6 +142,20 @@ class UpstashRedisClient {
     });
   }
 
+  async hincrby(key: string, field: string, increment: number): Promise<any> {
+    return await this.request(`hincrby/${encodeURIComponent(key)}/${encodeURIComponent(field)}/${increment}`, 'POST');
+  }
+
+  // Send several commands in one round trip, e.g. [['HINCRBY', key, field, 1], ['EXPIRE', key, 60]]
+  async pipeline(commands: Array<Array<string | number>>): Promise<any> {
+    return await this.request('pipeline', 'POST', commands);
+  }
+
+  // Run a Lua script atomically; nothing else executes on the server while it runs
+  async eval(script: string, keys: string[], args: Array<string | number>): Promise<any> {
+    return await this.request('', 'POST', ['EVAL', script, keys.length, ...keys, ...args]);
+  }
+
   async ping(): Promise<any> {
     return await this.request('ping');
   }
@@ -225,11 +255,28 @@ export const RedisKeys = {
   rooms: 'room:',
   roomParticipants: 'room:participants:',
   roomState: 'room:state:',
+  roomChat: 'room:chat:',
   activeRooms: 'rooms:active',
   
   // Provider caching
   providerCache: 'provider:',
   providerHealth: 'provider:health:',
+  providerHealthHistory: 'provider:health_history:',
+  providerRegistry: 'providers:registry',
+  providerStats: 'provider:stats:',
+  proxyPool: 'proxies:pool',
+  providerMaintenance: 'providers:maintenance',
+  providerRouting: 'providers:routing',
+
+  // Id mappings between TMDB, IMDb and TVDB (kept without expiry)
+  idMappings: 'ids:',
+
+  // Subtitle tracks
+  subtitles: 'subtitles:',
+
+  // Trakt account links
+  traktDeviceCode: 'trakt:device:',
+  traktTokens: 'trakt:tokens:',
   
   // Rate limiting
   rateLimit: 'rate_limit:',
@@ -239,6 +286,7 @@ export const RedisKeys = {
   
   // Cache
   cache: 'cache:',
+  cacheTags: 'cache:tag:',
   metrics: 'metrics:',
   userData: 'user:',
   watchParty: 'watch_party:'
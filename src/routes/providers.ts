@@ -1,15 +1,201 @@
-import { FastifyPluginAsync } from 'fastify';
-import { providerService } from '../services/providerService';
+import { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
+import { providerService, MAX_SEASON_EPISODES, PlayerOptions, BatchEmbedItem, RateLimitStatus } from '../services/providerService';
+import { providerRegistry } from '../services/providerRegistry';
+import { providerHealthService } from '../services/providerHealthService';
+import { metadataService, toMetadataType } from '../services/metadataService';
+import { providerStatsService } from '../services/providerStatsService';
+import { proxyPoolService } from '../services/proxyPoolService';
+import { providerMaintenanceService } from '../services/providerMaintenanceService';
+import { traktService } from '../services/traktService';
+import { idMappingService } from '../services/idMappingService';
+import { embedSigningService } from '../services/embedSigningService';
+import { validateSupabaseToken } from '../config/supabase';
 import { internalAuth } from '../middleware/internalAuth';
+import { supabaseAuth } from '../middleware/supabaseAuth';
 import { sanitizeId, sanitizeString } from '../utils/sanitizer';
-import { createSafeErrorResponse, logErrorWithDetails, ValidationError, NotFoundError, RateLimitError } from '../utils/errorHandler';
+import { createSafeErrorResponse, logErrorWithDetails, ValidationError, NotFoundError, RateLimitError, AuthenticationError } from '../utils/errorHandler';
 import { logger } from '../utils/logger';
 import { trackEvent } from '../config/posthog';
+import { EMBED_BATCH_MAX_ITEMS, COUNTRY_HEADER, EMBED_VIEWER_SESSION_TTL } from '../config/environment';
+import { StatsGranularity, RoutingPolicy, MediaType, AnimeVariant, ProviderIdType } from '../types/index';
+
+// TMDB and TVDB ids are both numeric, so the embed routes take the id type explicitly (IMDb ids are detected)
+const idTypeProperty = { type: 'string', enum: ['tmdb', 'imdb', 'tvdb'] };
+
+const urlTemplateSchema = {
+  type: 'object',
+  required: ['path'],
+  additionalProperties: false,
+  properties: {
+    path: { type: 'string', maxLength: 2048 },
+    idType: idTypeProperty,
+    seasonBase: { type: 'integer', enum: [0, 1] }
+  }
+};
+
+const providerConfigProperties = {
+  name: { type: 'string', maxLength: 100 },
+  baseUrl: { type: 'string', maxLength: 2048 },
+  enabled: { type: 'boolean' },
+  iframeTemplate: { type: 'string', maxLength: 2048 },
+  iframeAttributes: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      sandbox: { type: 'string', maxLength: 500 },
+      allow: { type: 'string', maxLength: 500 }
+    }
+  },
+  playerParams: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      autoplay: { type: 'string', maxLength: 50 },
+      startTime: { type: 'string', maxLength: 50 },
+      subtitleLang: { type: 'string', maxLength: 50 },
+      themeColor: { type: 'string', maxLength: 50 }
+    }
+  },
+  healthCheckUrl: { type: 'string', maxLength: 2048 },
+  urlTemplates: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      movie: urlTemplateSchema,
+      tv: urlTemplateSchema,
+      anime: urlTemplateSchema
+    }
+  },
+  subtitleUrl: { type: 'string', maxLength: 2048 },
+  animeVariants: { type: 'array', minItems: 1, items: { type: 'string', enum: ['sub', 'dub'] } },
+  availability: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      allowedCountries: { type: 'array', maxItems: 250, items: { type: 'string', pattern: '^[A-Z]{2}$' } },
+      blockedCountries: { type: 'array', maxItems: 250, items: { type: 'string', pattern: '^[A-Z]{2}$' } },
+      mediaTypes: { type: 'array', items: { type: 'string', enum: ['movie', 'tv', 'anime'] } },
+      excludedMediaIds: { type: 'array', maxItems: 10000, items: { type: 'string', pattern: '^[a-zA-Z0-9]+$' } }
+    }
+  },
+  rateLimit: {
+    type: 'object',
+    required: ['requests', 'windowMs'],
+    properties: {
+      requests: { type: 'number', minimum: 1 },
+      windowMs: { type: 'number', minimum: 1000 }
+    }
+  }
+};
+
+// Per-request player options accepted by the embed routes
+const playerOptionProperties = {
+  autoplay: { type: 'boolean' },
+  startTime: { type: 'integer', minimum: 0 },
+  subtitleLang: { type: 'string', pattern: '^[a-z]{2,3}(-[A-Z]{2})?$' },
+  themeColor: { type: 'string', pattern: '^#?[0-9a-fA-F]{6}$' }
+};
+
+const getPlayerOptions = (query: PlayerOptions): PlayerOptions => ({
+  ...(query.autoplay !== undefined && { autoplay: query.autoplay }),
+  ...(query.startTime !== undefined && { startTime: query.startTime }),
+  ...(query.subtitleLang !== undefined && { subtitleLang: query.subtitleLang }),
+  ...(query.themeColor !== undefined && { themeColor: query.themeColor })
+});
+
+const countryProperty = { type: 'string', pattern: '^[a-zA-Z]{2}$' };
+
+// Country for availability rules: an explicit country parameter, otherwise the one our edge sets in a header
+const getCountry = (request: FastifyRequest, country?: string): string | undefined => {
+  const value = country || request.headers[COUNTRY_HEADER];
+  return typeof value === 'string' && /^[a-zA-Z]{2}$/.test(value) ? value.toUpperCase() : undefined;
+};
+
+// Provider rate limits apply per caller: the user the request is made for, or the client IP
+const VIEWER_SESSION_COOKIE = 'embed_viewer';
+
+const getCookie = (request: FastifyRequest, name: string): string | undefined => {
+  for (const part of (request.headers.cookie || '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+};
+
+// Signed URLs are bound to a user, so they can't be issued without one (checked before rate limits count the request)
+const assertSignable = (signed: boolean, userId?: string): void => {
+  if (signed && !sanitizeId(userId)) {
+    throw new ValidationError('userId is required for signed embed URLs');
+  }
+};
+
+const getCallerId = (request: FastifyRequest, userId?: string): string => {
+  return sanitizeId(userId) || request.ip || 'anonymous';
+};
+
+const setProviderRateLimitHeaders = (reply: FastifyReply, status: RateLimitStatus): void => {
+  reply.header('X-Provider-RateLimit-Limit', status.limit);
+  reply.header('X-Provider-RateLimit-Remaining', status.remaining);
+  reply.header('X-Provider-RateLimit-Reset', status.resetTime);
+};
+
+/**
+ * Reserves a slot in the caller's provider limit, then runs the request. Throws RateLimitError
+ * (with Retry-After set) once the limit is used up; a failed request gives its slot back.
+ */
+const withProviderRateLimit = async <T>(reply: FastifyReply, provider: string, callerId: string, run: () => Promise<T>): Promise<T> => {
+  const status = await providerService.reserveRateLimit(provider, callerId);
+  if (status) {
+    setProviderRateLimitHeaders(reply, status);
+
+    if (!status.allowed) {
+      const retryAfter = Math.max(1, Math.ceil((status.resetTime - Date.now()) / 1000));
+      reply.header('Retry-After', retryAfter);
+
+      const error = new RateLimitError(`Rate limit exceeded for provider ${provider}`);
+      error.details = { provider, retryAfter };
+      throw error;
+    }
+  }
+
+  try {
+    return await run();
+  } catch (error) {
+    await providerService.releaseRateLimit(provider, callerId, status);
+    throw error;
+  }
+};
+
+const usageStatsSchema = {
+  type: 'object',
+  properties: {
+    provider: { type: 'string' },
+    mediaType: { type: 'string' },
+    requests: { type: 'number' },
+    successes: { type: 'number' },
+    errors: { type: 'number' },
+    avgLatency: { type: ['number', 'null'] },
+    p50Latency: { type: ['number', 'null'] },
+    p95Latency: { type: ['number', 'null'] },
+    p99Latency: { type: ['number', 'null'] }
+  }
+};
+
+const providerParamsSchema = {
+  type: 'object',
+  required: ['provider'],
+  properties: {
+    provider: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$' }
+  }
+};
 
 const providersRoutes: FastifyPluginAsync = async (fastify) => {
   // Get provider embed URL - requires internal authentication
   fastify.get('/:provider/:id', { 
     preHandler: [internalAuth],
+    attachValidation: true,
     schema: {
       params: {
         type: 'object',
@@ -19,6 +205,21 @@ const providersRoutes: FastifyPluginAsync = async (fastify) => {
           id: { type: 'string', pattern: '^[a-zA-Z0-9]+$' }
         }
       },
+      querystring: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['movie', 'tv', 'anime'], default: 'movie' },
+          season: { type: 'integer', minimum: 1 },
+          episode: { type: 'integer', minimum: 1 },
+          variant: { type: 'string', enum: ['sub', 'dub'], default: 'sub' },
+          signed: { type: 'boolean', default: false },
+          userId: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$', maxLength: 50 },
+          country: countryProperty,
+          verify: { type: 'boolean', default: false },
+          idType: idTypeProperty,
+          ...playerOptionProperties
+        }
+      },
       response: {
         200: {
           type: 'object',
@@ -31,11 +232,23 @@ const providersRoutes: FastifyPluginAsync = async (fastify) => {
               properties: {
                 provider: { type: 'string' },
                 embedUrl: { type: 'string' },
-                iframeCode: { type: 'string' }
+                iframeCode: { type: 'string' },
+                signedUrl: { type: 'string' },
+                expiresAt: { type: 'number' },
+                unsupportedOptions: { type: 'array', items: { type: 'string' } }
               }
             }
           }
         },
+        400: {
+          type: 'object',
+          required: ['statusCode', 'error', 'message'],
+          properties: {
+            statusCode: { type: 'number' },
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        },
         401: {
           type: 'object',
           required: ['statusCode', 'error', 'message'],
@@ -67,7 +280,22 @@ const providersRoutes: FastifyPluginAsync = async (fastify) => {
     }
   }, async (request, reply) => {
     try {
+      if (request.validationError) {
+        throw new ValidationError(request.validationError.message);
+      }
+
       const { provider, id } = request.params as { provider: string; id: string };
+      const { type: mediaType = 'movie', season, episode, signed = false, userId, country, verify = false, variant = 'sub', idType } = request.query as {
+        type?: MediaType;
+        season?: number;
+        episode?: number;
+        variant?: AnimeVariant;
+        signed?: boolean;
+        userId?: string;
+        country?: string;
+        verify?: boolean;
+        idType?: ProviderIdType;
+      };
       
       const sanitizedProvider = sanitizeId(provider);
       const sanitizedId = sanitizeId(id);
@@ -76,19 +304,54 @@ const providersRoutes: FastifyPluginAsync = async (fastify) => {
         throw new ValidationError('Invalid provider or ID format');
       }
 
+      if (mediaType === 'tv' && (season === undefined || episode === undefined)) {
+        throw new ValidationError('season and episode query parameters are required when type=tv');
+      }
+
+      if (mediaType === 'anime' && episode === undefined) {
+        throw new ValidationError('episode query parameter is required when type=anime');
+      }
+
+      assertSignable(signed, userId);
+
       // Track provider embed request
       await trackEvent('provider_embed_request', {
         provider: sanitizedProvider,
         id: sanitizedId,
+        mediaType,
+        season,
+        episode,
         ip: request.ip
       });
 
-      const embedData = await providerService.getProviderEmbedUrl(sanitizedProvider, sanitizedId);
+      const callerId = getCallerId(request, userId);
+      const playerOptions = getPlayerOptions(request.query as PlayerOptions);
+      let embedData = await withProviderRateLimit(reply, sanitizedProvider, callerId, () =>
+        providerService.getProviderEmbedUrl(sanitizedProvider, sanitizedId, mediaType, season, episode, playerOptions, getCountry(request, country), verify, variant, idType)
+      );
+
+      if (signed) {
+        embedData = providerService.signEmbed(embedData, sanitizeId(userId));
+      }
+
+      // Opening an embed for a user starts a scrobble on their linked Trakt account (matched by TMDB id)
+      if (userId) {
+        idMappingService.convert(sanitizedId, idType || idMappingService.detectIdType(sanitizedId), 'tmdb', mediaType)
+          .then(tmdbId => traktService.scrobble(sanitizeId(userId), 'start', {
+            tmdbId,
+            mediaType,
+            ...(season !== undefined && { season }),
+            ...(episode !== undefined && { episode })
+          }, 0))
+          .catch(error => logger.warn('Trakt scrobble from embed request failed:', error));
+      }
 
       // Track successful embed generation
       await trackEvent('provider_embed_success', {
         provider: sanitizedProvider,
-        id: sanitizedId
+        id: sanitizedId,
+        mediaType,
+        signed
       });
 
       return { success: true, data: embedData };
@@ -111,41 +374,169 @@ const providersRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
-  // Get supported providers list - requires internal authentication
-  fastify.get('/list', {
-    preHandler: [internalAuth]
+  // Resolve embed URLs for many titles in one request - requires internal authentication
+  fastify.post('/embeds', {
+    preHandler: [internalAuth],
+    attachValidation: true,
+    schema: {
+      body: {
+        type: 'object',
+        required: ['items'],
+        properties: {
+          userId: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$', maxLength: 50 },
+          country: countryProperty,
+          verify: { type: 'boolean', default: false },
+          items: {
+            type: 'array',
+            minItems: 1,
+            maxItems: EMBED_BATCH_MAX_ITEMS,
+            items: {
+              type: 'object',
+              required: ['provider', 'mediaId'],
+              properties: {
+                provider: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$' },
+                mediaId: { type: 'string', pattern: '^[a-zA-Z0-9]+$' },
+                mediaType: { type: 'string', enum: ['movie', 'tv', 'anime'], default: 'movie' },
+                season: { type: 'integer', minimum: 1 },
+                episode: { type: 'integer', minimum: 1 },
+                animeVariant: { type: 'string', enum: ['sub', 'dub'] },
+                idType: idTypeProperty
+              }
+            }
+          }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          required: ['success', 'data'],
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                total: { type: 'number' },
+                succeeded: { type: 'number' },
+                failed: { type: 'number' },
+                results: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    required: ['index', 'provider', 'mediaId', 'success'],
+                    properties: {
+                      index: { type: 'number' },
+                      provider: { type: 'string' },
+                      mediaId: { type: 'string' },
+                      success: { type: 'boolean' },
+                      data: {
+                        type: 'object',
+                        properties: {
+                          provider: { type: 'string' },
+                          embedUrl: { type: 'string' },
+                          iframeCode: { type: 'string' }
+                        }
+                      },
+                      error: {
+                        type: 'object',
+                        properties: {
+                          statusCode: { type: 'number' },
+                          error: { type: 'string' },
+                          message: { type: 'string' }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
   }, async (request, reply) => {
     try {
-      // Track provider list request
-      await trackEvent('provider_list_request', {
-        ip: request.ip
-      });
+      if (request.validationError) {
+        throw new ValidationError(request.validationError.message);
+      }
 
-      const providers = await providerService.getSupportedProviders();
+      const { items, userId, country, verify = false } = request.body as {
+        items: BatchEmbedItem[];
+        userId?: string;
+        country?: string;
+        verify?: boolean;
+      };
+      const sanitizedItems: BatchEmbedItem[] = items.map(item => ({
+        ...item,
+        provider: sanitizeId(item.provider),
+        mediaId: sanitizeId(item.mediaId)
+      }));
 
-      // Track successful provider list retrieval
-      await trackEvent('provider_list_success', {
-        providerCount: providers.length
-      });
+      const results = await providerService.getBatchEmbedUrls(sanitizedItems, getCallerId(request, userId), getCountry(request, country), verify);
 
-      return { success: true, data: providers };
-    } catch (error) {
-      // Track failed provider list request
-      await trackEvent('provider_list_error', {
-        error: error instanceof Error ? error.message : 'Unknown error'
+      for (const result of results) {
+        const item = sanitizedItems[result.index]!;
+        await trackEvent(result.success ? 'provider_embed_success' : 'provider_embed_error', {
+          provider: result.provider,
+          id: result.mediaId,
+          mediaType: item.mediaType || 'movie',
+          batch: true,
+          ...(result.error && { error: result.error.message })
+        });
+      }
+
+      const succeeded = results.filter(result => result.success).length;
+
+      await trackEvent('provider_embed_batch', {
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+        ip: request.ip
       });
 
-      logErrorWithDetails(error, { context: 'Get providers list' });
+      return {
+        success: true,
+        data: {
+          total: results.length,
+          succeeded,
+          failed: results.length - succeeded,
+          results
+        }
+      };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Batch embed resolution' });
       const safeError = createSafeErrorResponse(error);
       return reply.code(safeError.statusCode as any).send(safeError);
     }
   });
 
-
-  // Get provider statistics - requires internal authentication
-  fastify.get('/stats', { 
+  // Get the best available embed URL by walking the provider fallback chain - requires internal authentication
+  fastify.get('/auto/:id', {
     preHandler: [internalAuth],
+    attachValidation: true,
     schema: {
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', pattern: '^[a-zA-Z0-9]+$' }
+        }
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['movie', 'tv', 'anime'], default: 'movie' },
+          season: { type: 'integer', minimum: 1 },
+          episode: { type: 'integer', minimum: 1 },
+          variant: { type: 'string', enum: ['sub', 'dub'], default: 'sub' },
+          providers: { type: 'string', maxLength: 500 },
+          signed: { type: 'boolean', default: false },
+          userId: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$', maxLength: 50 },
+          country: countryProperty,
+          verify: { type: 'boolean', default: false },
+          idType: idTypeProperty,
+          ...playerOptionProperties
+        }
+      },
       response: {
         200: {
           type: 'object',
@@ -154,76 +545,985 @@ const providersRoutes: FastifyPluginAsync = async (fastify) => {
             success: { type: 'boolean' },
             data: {
               type: 'object',
+              required: ['provider', 'embedUrl', 'iframeCode', 'reason', 'skipped'],
               properties: {
-                totalProviders: { type: 'number' },
-                enabledProviders: { type: 'number' },
-                disabledProviders: { type: 'number' },
-                providers: {
+                provider: { type: 'string' },
+                embedUrl: { type: 'string' },
+                iframeCode: { type: 'string' },
+                signedUrl: { type: 'string' },
+                expiresAt: { type: 'number' },
+                unsupportedOptions: { type: 'array', items: { type: 'string' } },
+                reason: { type: 'string' },
+                skipped: {
                   type: 'array',
                   items: {
                     type: 'object',
                     properties: {
-                      id: { type: 'string' },
-                      name: { type: 'string' },
-                      enabled: { type: 'boolean' },
-                      rateLimit: {
-                        type: 'object',
-                        properties: {
-                          requests: { type: 'number' },
-                          windowMs: { type: 'number' }
-                        }
-                      }
+                      provider: { type: 'string' },
+                      reason: { type: 'string' }
                     }
                   }
+                },
+                routing: {
+                  type: 'object',
+                  properties: {
+                    strategy: { type: 'string' },
+                    provider: { type: ['string', 'null'] },
+                    cohort: { type: 'string' }
+                  }
                 }
               }
             }
           }
-        },
-        401: {
-          type: 'object',
-          required: ['statusCode', 'error', 'message'],
-          properties: {
-            statusCode: { type: 'number' },
-            error: { type: 'string' },
-            message: { type: 'string' }
-          }
-        },
-        500: {
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      if (request.validationError) {
+        throw new ValidationError(request.validationError.message);
+      }
+
+      const { id } = request.params as { id: string };
+      const { type: mediaType = 'movie', season, episode, providers, signed = false, userId, country, verify = false, variant = 'sub', idType } = request.query as {
+        type?: MediaType;
+        season?: number;
+        episode?: number;
+        variant?: AnimeVariant;
+        providers?: string;
+        signed?: boolean;
+        userId?: string;
+        country?: string;
+        verify?: boolean;
+        idType?: ProviderIdType;
+      };
+
+      const sanitizedId = sanitizeId(id);
+      if (!sanitizedId) {
+        throw new ValidationError('Invalid ID format');
+      }
+
+      assertSignable(signed, userId);
+
+      const order = providers ? providers.split(',').map(sanitizeId).filter(Boolean) : undefined;
+
+      const playerOptions = getPlayerOptions(request.query as PlayerOptions);
+      const bestEmbed = await providerService.getBestAvailableEmbedUrl(sanitizedId, mediaType, season, episode, order, playerOptions, getCallerId(request, userId), getCountry(request, country), verify, variant, idType);
+      const embedData = signed ? { ...bestEmbed, ...providerService.signEmbed(bestEmbed, sanitizeId(userId)) } : bestEmbed;
+
+      await trackEvent('provider_auto_embed_success', {
+        provider: embedData.provider,
+        id: sanitizedId,
+        mediaType,
+        skipped: embedData.skipped.length
+      });
+
+      return { success: true, data: embedData };
+    } catch (error) {
+      await trackEvent('provider_auto_embed_error', {
+        id: (request.params as any).id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      logErrorWithDetails(error, {
+        context: 'Get best available embed URL',
+        id: (request.params as any).id
+      });
+
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Start a viewer session for the signed-in user; the cookie is what binds signed embeds to them in the browser
+  fastify.post('/redirect/session', {
+    onRequest: [supabaseAuth],
+    schema: {
+      response: {
+        200: {
           type: 'object',
-          required: ['statusCode', 'error', 'message'],
+          required: ['success', 'data'],
           properties: {
-            statusCode: { type: 'number' },
-            error: { type: 'string' },
-            message: { type: 'string' }
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                expiresAt: { type: 'number' }
+              }
+            }
           }
         }
       }
     }
   }, async (request, reply) => {
     try {
-      // Track provider stats request
-      await trackEvent('provider_stats_request', {
-        ip: request.ip
-      });
+      const user = (request as any).user;
+      const session = embedSigningService.createViewerSession(user.userId);
 
-      const stats = await providerService.getProviderStats();
+      // SameSite=None so the cookie is sent when the redirect loads inside a cross-site iframe
+      reply.header('Set-Cookie', `${VIEWER_SESSION_COOKIE}=${session.value}; Max-Age=${EMBED_VIEWER_SESSION_TTL}; Path=/; HttpOnly; Secure; SameSite=None`);
 
-      // Track successful stats retrieval
-      await trackEvent('provider_stats_success', {
-        totalProviders: stats.totalProviders,
-        enabledProviders: stats.enabledProviders
+      return { success: true, data: { expiresAt: session.expiresAt } };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Start embed viewer session' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Redirect a signed embed URL to the provider - needs the token plus proof of the user it was issued to
+  fastify.get('/redirect/:token', {
+    attachValidation: true,
+    schema: {
+      params: {
+        type: 'object',
+        required: ['token'],
+        properties: {
+          token: { type: 'string', pattern: '^[a-zA-Z0-9_-]+\\.[a-zA-Z0-9_-]+$', maxLength: 1024 }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      if (request.validationError) {
+        throw new AuthenticationError('Malformed embed token');
+      }
+
+      const { token } = request.params as { token: string };
+
+      // The token must belong to the caller: a bearer token when one is sent, otherwise the viewer session cookie
+      let expectedUserId: string;
+      const authHeader = request.headers.authorization;
+      const viewerSession = getCookie(request, VIEWER_SESSION_COOKIE);
+      if (authHeader?.startsWith('Bearer ')) {
+        try {
+          const user = await validateSupabaseToken(authHeader.replace('Bearer ', ''));
+          expectedUserId = user.id;
+        } catch {
+          throw new AuthenticationError('Invalid or expired token');
+        }
+      } else if (viewerSession) {
+        expectedUserId = embedSigningService.verifyViewerSession(viewerSession);
+      } else {
+        throw new AuthenticationError('A viewer session is required to open signed embeds');
+      }
+
+      const payload = embedSigningService.verify(token, expectedUserId);
+
+      await trackEvent('provider_signed_redirect', {
+        provider: payload.provider,
+        userId: payload.userId
       });
 
-      return { success: true, data: stats };
+      return reply.redirect(payload.embedUrl, 302);
     } catch (error) {
-      // Track failed provider stats request
-      await trackEvent('provider_stats_error', {
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+      logErrorWithDetails(error, { context: 'Signed embed redirect' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
 
-      logErrorWithDetails(error, { context: 'Get provider statistics' });
-      
+  // Get embed URLs for every episode of a TV season - requires internal authentication
+  fastify.get('/:provider/:id/seasons/:season', {
+    preHandler: [internalAuth],
+    attachValidation: true,
+    schema: {
+      params: {
+        type: 'object',
+        required: ['provider', 'id', 'season'],
+        properties: {
+          provider: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$' },
+          id: { type: 'string', pattern: '^[a-zA-Z0-9]+$' },
+          season: { type: 'integer', minimum: 1 }
+        }
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          episodes: { type: 'integer', minimum: 1, maximum: MAX_SEASON_EPISODES },
+          userId: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$', maxLength: 50 },
+          country: countryProperty,
+          idType: idTypeProperty
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          required: ['success', 'data'],
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              required: ['provider', 'mediaId', 'season', 'episodes'],
+              properties: {
+                provider: { type: 'string' },
+                mediaId: { type: 'string' },
+                season: { type: 'number' },
+                episodes: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    required: ['episode', 'embedUrl', 'iframeCode'],
+                    properties: {
+                      episode: { type: 'number' },
+                      embedUrl: { type: 'string' },
+                      iframeCode: { type: 'string' }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      if (request.validationError) {
+        throw new ValidationError(request.validationError.message);
+      }
+
+      const { provider, id, season } = request.params as { provider: string; id: string; season: number };
+      // Episode count falls back to TMDB metadata when omitted
+      const { episodes, userId, country, idType } = request.query as { episodes?: number; userId?: string; country?: string; idType?: ProviderIdType };
+
+      const sanitizedProvider = sanitizeId(provider);
+      const sanitizedId = sanitizeId(id);
+
+      if (!sanitizedProvider || !sanitizedId) {
+        throw new ValidationError('Invalid provider or ID format');
+      }
+
+      await trackEvent('provider_season_embed_request', {
+        provider: sanitizedProvider,
+        id: sanitizedId,
+        season,
+        episodes,
+        ip: request.ip
+      });
+
+      // A season listing counts as a single request against the provider's limit
+      const callerId = getCallerId(request, userId);
+      const seasonData = await withProviderRateLimit(reply, sanitizedProvider, callerId, () =>
+        providerService.getSeasonEmbedUrls(sanitizedProvider, sanitizedId, season, episodes, getCountry(request, country), idType)
+      );
+
+      return { success: true, data: seasonData };
+    } catch (error) {
+      await trackEvent('provider_season_embed_error', {
+        provider: (request.params as any).provider,
+        id: (request.params as any).id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      logErrorWithDetails(error, {
+        context: 'Get season embed URLs',
+        provider: (request.params as any).provider,
+        id: (request.params as any).id,
+        season: (request.params as any).season
+      });
+
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Resolve TMDB metadata for a movie or show - requires internal authentication
+  fastify.get('/metadata/:type/:id', {
+    preHandler: [internalAuth],
+    attachValidation: true,
+    schema: {
+      params: {
+        type: 'object',
+        required: ['type', 'id'],
+        properties: {
+          type: { type: 'string', enum: ['movie', 'tv', 'anime'] },
+          id: { type: 'string', pattern: '^[0-9]+$' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      if (request.validationError) {
+        throw new ValidationError(request.validationError.message);
+      }
+
+      const { type, id } = request.params as { type: MediaType; id: string };
+      const metadata = await metadataService.getMetadata(id, toMetadataType(type));
+
+      return { success: true, data: metadata };
+    } catch (error) {
+      logErrorWithDetails(error, {
+        context: 'Get media metadata',
+        type: (request.params as any).type,
+        id: (request.params as any).id
+      });
+
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Map an id to its TMDB, IMDb and TVDB equivalents - requires internal authentication
+  fastify.get('/metadata/:type/:id/ids', {
+    preHandler: [internalAuth],
+    attachValidation: true,
+    schema: {
+      params: {
+        type: 'object',
+        required: ['type', 'id'],
+        properties: {
+          type: { type: 'string', enum: ['movie', 'tv', 'anime'] },
+          id: { type: 'string', pattern: '^[a-zA-Z0-9]+$' }
+        }
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          idType: idTypeProperty
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      if (request.validationError) {
+        throw new ValidationError(request.validationError.message);
+      }
+
+      const { type, id } = request.params as { type: MediaType; id: string };
+      const { idType } = request.query as { idType?: ProviderIdType };
+      const ids = await idMappingService.getIds(id, idType || idMappingService.detectIdType(id), type);
+
+      return { success: true, data: ids };
+    } catch (error) {
+      logErrorWithDetails(error, {
+        context: 'Map media ids',
+        type: (request.params as any).type,
+        id: (request.params as any).id
+      });
+
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Map between TMDB season/episode and absolute episode numbers for anime - requires internal authentication
+  fastify.get('/metadata/anime/:id/episode', {
+    preHandler: [internalAuth],
+    attachValidation: true,
+    schema: {
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', pattern: '^[0-9]+$' }
+        }
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          absolute: { type: 'integer', minimum: 1 },
+          season: { type: 'integer', minimum: 1 },
+          episode: { type: 'integer', minimum: 1 }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      if (request.validationError) {
+        throw new ValidationError(request.validationError.message);
+      }
+
+      const { id } = request.params as { id: string };
+      const { absolute, season, episode } = request.query as { absolute?: number; season?: number; episode?: number };
+
+      if (absolute !== undefined) {
+        const mapped = await metadataService.fromAbsoluteEpisode(id, absolute);
+        return { success: true, data: { tmdbId: id, ...mapped, absoluteEpisode: absolute } };
+      }
+
+      if (season === undefined || episode === undefined) {
+        throw new ValidationError('Either absolute or season and episode query parameters are required');
+      }
+
+      const absoluteEpisode = await metadataService.toAbsoluteEpisode(id, season, episode);
+      return { success: true, data: { tmdbId: id, season, episode, absoluteEpisode } };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Map anime episode', id: (request.params as any).id });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Get supported providers list - requires internal authentication
+  fastify.get('/list', {
+    preHandler: [internalAuth],
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          country: countryProperty,
+          type: { type: 'string', enum: ['movie', 'tv', 'anime'] }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { country, type: mediaType } = request.query as { country?: string; type?: MediaType };
+
+      // Track provider list request
+      await trackEvent('provider_list_request', {
+        ip: request.ip
+      });
+
+      const providers = await providerService.getSupportedProviders({ country: getCountry(request, country), mediaType });
+
+      // Track successful provider list retrieval
+      await trackEvent('provider_list_success', {
+        providerCount: providers.length
+      });
+
+      return { success: true, data: providers };
+    } catch (error) {
+      // Track failed provider list request
+      await trackEvent('provider_list_error', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      logErrorWithDetails(error, { context: 'Get providers list' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+
+  // Get provider statistics - requires internal authentication
+  fastify.get('/stats', { 
+    preHandler: [internalAuth],
+    attachValidation: true,
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          from: { type: 'string', format: 'date-time' },
+          to: { type: 'string', format: 'date-time' },
+          granularity: { type: 'string', enum: ['minute', 'hour', 'day'], default: 'hour' },
+          provider: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          required: ['success', 'data'],
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                totalProviders: { type: 'number' },
+                enabledProviders: { type: 'number' },
+                disabledProviders: { type: 'number' },
+                providers: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      name: { type: 'string' },
+                      enabled: { type: 'boolean' },
+                      rateLimit: {
+                        type: 'object',
+                        properties: {
+                          requests: { type: 'number' },
+                          windowMs: { type: 'number' }
+                        }
+                      }
+                    }
+                  }
+                },
+                usage: {
+                  type: 'object',
+                  properties: {
+                    from: { type: 'string', format: 'date-time' },
+                    to: { type: 'string', format: 'date-time' },
+                    granularity: { type: 'string' },
+                    totals: { type: 'array', items: usageStatsSchema },
+                    series: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          timestamp: { type: 'string', format: 'date-time' },
+                          ...usageStatsSchema.properties
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        401: {
+          type: 'object',
+          required: ['statusCode', 'error', 'message'],
+          properties: {
+            statusCode: { type: 'number' },
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        },
+        500: {
+          type: 'object',
+          required: ['statusCode', 'error', 'message'],
+          properties: {
+            statusCode: { type: 'number' },
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      if (request.validationError) {
+        throw new ValidationError(request.validationError.message);
+      }
+
+      const { from, to, granularity = 'hour', provider } = request.query as {
+        from?: string;
+        to?: string;
+        granularity?: StatsGranularity;
+        provider?: string;
+      };
+
+      // Defaults to the last 24 hours
+      const toDate = to ? new Date(to) : new Date();
+      const fromDate = from ? new Date(from) : new Date(toDate.getTime() - 24 * 60 * 60 * 1000);
+
+      // Track provider stats request
+      await trackEvent('provider_stats_request', {
+        ip: request.ip,
+        granularity
+      });
+
+      const stats = await providerService.getProviderStats();
+      const usage = await providerStatsService.getUsage(fromDate, toDate, granularity, provider ? sanitizeId(provider) : undefined);
+
+      // Track successful stats retrieval
+      await trackEvent('provider_stats_success', {
+        totalProviders: stats.totalProviders,
+        enabledProviders: stats.enabledProviders
+      });
+
+      return {
+        success: true,
+        data: {
+          ...stats,
+          usage: {
+            from: fromDate,
+            to: toDate,
+            granularity,
+            ...usage
+          }
+        }
+      };
+    } catch (error) {
+      // Track failed provider stats request
+      await trackEvent('provider_stats_error', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      logErrorWithDetails(error, { context: 'Get provider statistics' });
+      
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Get provider health status and probe history - requires internal authentication
+  fastify.get('/health', {
+    preHandler: [internalAuth],
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          provider: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$' },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { provider, limit = 20 } = request.query as { provider?: string; limit?: number };
+
+      const providers = provider ? [sanitizeId(provider)] : providerRegistry.getAll().map(p => p.id);
+      if (provider && !providerRegistry.get(providers[0]!)) {
+        throw new NotFoundError(`Provider ${provider} not found`);
+      }
+
+      const data = await Promise.all(providers.map(async (id) => ({
+        provider: id,
+        current: providerHealthService.getHealth(id) || null,
+        history: await providerHealthService.getHistory(id, limit)
+      })));
+
+      return { success: true, data };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Get provider health' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Outbound proxy pool status - requires internal authentication
+  fastify.get('/proxies', {
+    preHandler: [internalAuth]
+  }, async (request, reply) => {
+    try {
+      return { success: true, data: proxyPoolService.getStatus() };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Get proxy pool status' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Current routing policy for provider=auto - requires internal authentication
+  fastify.get('/routing', {
+    preHandler: [internalAuth]
+  }, async (request, reply) => {
+    try {
+      return { success: true, data: providerRegistry.getRoutingPolicy() };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Get routing policy' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Replace the routing policy - requires internal authentication
+  fastify.put('/routing', {
+    preHandler: [internalAuth],
+    schema: {
+      body: {
+        type: 'object',
+        required: ['strategy'],
+        additionalProperties: false,
+        properties: {
+          strategy: { type: 'string', enum: ['weighted', 'sticky', 'canary'] },
+          weights: {
+            type: 'object',
+            maxProperties: 50,
+            propertyNames: { pattern: '^[a-zA-Z0-9_-]+$' },
+            additionalProperties: { type: 'number', minimum: 0 }
+          },
+          canary: {
+            type: 'object',
+            required: ['provider', 'percentage'],
+            properties: {
+              provider: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$' },
+              percentage: { type: 'number', minimum: 0, maximum: 100 }
+            }
+          }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const policy = await providerRegistry.setRoutingPolicy(request.body as RoutingPolicy);
+
+      await trackEvent('provider_routing_updated', {
+        strategy: policy.strategy,
+        weights: policy.weights,
+        canary: policy.canary
+      });
+
+      return { success: true, data: policy };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Set routing policy' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Remove the routing policy, restoring the plain fallback order - requires internal authentication
+  fastify.delete('/routing', {
+    preHandler: [internalAuth]
+  }, async (request, reply) => {
+    try {
+      await providerRegistry.clearRoutingPolicy();
+      await trackEvent('provider_routing_cleared', {});
+
+      return { success: true };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Clear routing policy' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // List active and upcoming maintenance windows - requires internal authentication
+  fastify.get('/maintenance', {
+    preHandler: [internalAuth],
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          provider: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { provider } = request.query as { provider?: string };
+      return { success: true, data: providerMaintenanceService.list(provider && sanitizeId(provider)) };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'List maintenance windows' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Schedule a maintenance window for a provider - requires internal authentication
+  fastify.post('/maintenance', {
+    preHandler: [internalAuth],
+    schema: {
+      body: {
+        type: 'object',
+        required: ['provider', 'endsAt', 'reason'],
+        properties: {
+          provider: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$' },
+          startsAt: { type: 'string', format: 'date-time' },
+          endsAt: { type: 'string', format: 'date-time' },
+          reason: { type: 'string', minLength: 1, maxLength: 500 }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { provider, startsAt, endsAt, reason } = request.body as {
+        provider: string;
+        startsAt?: string;
+        endsAt: string;
+        reason: string;
+      };
+
+      const window = await providerMaintenanceService.schedule(
+        sanitizeId(provider),
+        startsAt ? new Date(startsAt) : new Date(),
+        new Date(endsAt),
+        sanitizeString(reason, 500)
+      );
+
+      await trackEvent('provider_maintenance_scheduled', {
+        provider: window.provider,
+        startsAt: window.startsAt.toISOString(),
+        endsAt: window.endsAt.toISOString()
+      });
+
+      return reply.code(201).send({ success: true, data: window });
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Schedule maintenance window' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Cancel a maintenance window - requires internal authentication
+  fastify.delete('/maintenance/:id', {
+    preHandler: [internalAuth],
+    schema: {
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', pattern: '^[a-zA-Z0-9-]+$', maxLength: 100 }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await providerMaintenanceService.cancel(id);
+
+      await trackEvent('provider_maintenance_cancelled', { id });
+
+      return { success: true };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Cancel maintenance window', id: (request.params as any).id });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Invalidate cached embeds by tag or provider - requires internal authentication
+  fastify.post('/cache/invalidate', {
+    preHandler: [internalAuth],
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          tag: { type: 'string', maxLength: 200 },
+          provider: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { tag, provider } = request.body as { tag?: string; provider?: string };
+
+      if (!tag && !provider) {
+        throw new ValidationError('Either tag or provider is required');
+      }
+
+      const invalidated = provider
+        ? await providerService.invalidateProviderCache(sanitizeId(provider))
+        : await providerService.invalidateCacheTag(sanitizeString(tag, 200));
+
+      await trackEvent('provider_cache_invalidated', { tag, provider, invalidated });
+
+      return { success: true, data: { invalidated } };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Invalidate provider cache' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // List all registered providers, including disabled ones - requires internal authentication
+  fastify.get('/admin', {
+    preHandler: [internalAuth]
+  }, async (request, reply) => {
+    try {
+      return { success: true, data: providerRegistry.getAll() };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'List registered providers' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Register a new provider at runtime - requires internal authentication
+  fastify.post('/admin', {
+    preHandler: [internalAuth],
+    schema: {
+      body: {
+        type: 'object',
+        required: ['id', 'name', 'baseUrl', 'iframeTemplate'],
+        properties: {
+          id: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$', maxLength: 50 },
+          ...providerConfigProperties
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const body = request.body as any;
+      const provider = await providerRegistry.addProvider({
+        ...body,
+        id: sanitizeId(body.id),
+        name: sanitizeString(body.name, 100),
+        enabled: body.enabled ?? true
+      });
+
+      await trackEvent('provider_admin_added', { provider: provider.id });
+
+      return reply.code(201).send({ success: true, data: provider });
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Add provider' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Update an existing provider - requires internal authentication
+  fastify.put('/admin/:provider', {
+    preHandler: [internalAuth],
+    schema: {
+      params: providerParamsSchema,
+      body: {
+        type: 'object',
+        properties: providerConfigProperties
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { provider } = request.params as { provider: string };
+      const updates = { ...(request.body as any) };
+      if (updates.name !== undefined) {
+        updates.name = sanitizeString(updates.name, 100);
+      }
+
+      const updated = await providerRegistry.updateProvider(sanitizeId(provider), updates);
+
+      // Cached embeds were built from the old config
+      await providerService.invalidateProviderCache(updated.id);
+
+      await trackEvent('provider_admin_updated', { provider: updated.id });
+
+      return { success: true, data: updated };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Update provider', provider: (request.params as any).provider });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Enable a provider - requires internal authentication
+  fastify.post('/admin/:provider/enable', {
+    preHandler: [internalAuth],
+    schema: { params: providerParamsSchema }
+  }, async (request, reply) => {
+    try {
+      const { provider } = request.params as { provider: string };
+      const updated = await providerRegistry.setProviderEnabled(sanitizeId(provider), true);
+
+      await trackEvent('provider_admin_enabled', { provider: updated.id });
+
+      return { success: true, data: updated };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Enable provider', provider: (request.params as any).provider });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Disable a provider - requires internal authentication
+  fastify.post('/admin/:provider/disable', {
+    preHandler: [internalAuth],
+    schema: { params: providerParamsSchema }
+  }, async (request, reply) => {
+    try {
+      const { provider } = request.params as { provider: string };
+      const updated = await providerRegistry.setProviderEnabled(sanitizeId(provider), false);
+
+      await trackEvent('provider_admin_disabled', { provider: updated.id });
+
+      return { success: true, data: updated };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Disable provider', provider: (request.params as any).provider });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Remove a provider - requires internal authentication
+  fastify.delete('/admin/:provider', {
+    preHandler: [internalAuth],
+    schema: { params: providerParamsSchema }
+  }, async (request, reply) => {
+    try {
+      const { provider } = request.params as { provider: string };
+      const sanitizedProvider = sanitizeId(provider);
+      await providerRegistry.removeProvider(sanitizedProvider);
+      await providerService.invalidateProviderCache(sanitizedProvider);
+
+      await trackEvent('provider_admin_removed', { provider: sanitizedProvider });
+
+      return { success: true };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Remove provider', provider: (request.params as any).provider });
       const safeError = createSafeErrorResponse(error);
       return reply.code(safeError.statusCode as any).send(safeError);
     }
@@ -0,0 +1,106 @@
+import { FastifyPluginAsync } from 'fastify';
+import { subtitleService } from '../services/subtitleService';
+import { supabaseAuth } from '../middleware/supabaseAuth';
+import { sanitizeId } from '../utils/sanitizer';
+import { createSafeErrorResponse, logErrorWithDetails, ValidationError, NotFoundError } from '../utils/errorHandler';
+import { SUBTITLE_CACHE_TTL } from '../config/environment';
+import { MediaType, ProviderIdType } from '../types/index';
+
+const subtitlesRoutes: FastifyPluginAsync = async (fastify) => {
+  // Discover subtitle tracks for a title - requires a Supabase session
+  fastify.get('/:type/:id', {
+    onRequest: [supabaseAuth],
+    attachValidation: true,
+    schema: {
+      params: {
+        type: 'object',
+        required: ['type', 'id'],
+        properties: {
+          type: { type: 'string', enum: ['movie', 'tv', 'anime'] },
+          id: { type: 'string', pattern: '^[a-zA-Z0-9]+$' }
+        }
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          season: { type: 'integer', minimum: 1 },
+          episode: { type: 'integer', minimum: 1 },
+          provider: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$' },
+          language: { type: 'string', pattern: '^[a-z]{2}$' },
+          idType: { type: 'string', enum: ['tmdb', 'imdb', 'tvdb'] }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      if (request.validationError) {
+        throw new ValidationError(request.validationError.message);
+      }
+
+      const { type, id } = request.params as { type: MediaType; id: string };
+      const { season, episode, provider, language, idType } = request.query as {
+        season?: number;
+        episode?: number;
+        provider?: string;
+        language?: string;
+        idType?: ProviderIdType;
+      };
+
+      const tracks = await subtitleService.getTracks(
+        sanitizeId(id),
+        type,
+        type === 'tv' ? season : undefined,
+        type === 'movie' ? undefined : episode,
+        provider && sanitizeId(provider),
+        idType
+      );
+
+      return {
+        success: true,
+        data: language ? tracks.filter(track => track.language === language) : tracks
+      };
+    } catch (error) {
+      logErrorWithDetails(error, {
+        context: 'Get subtitle tracks',
+        type: (request.params as any).type,
+        id: (request.params as any).id
+      });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // WebVTT contents of a discovered track - public so it can be used as a <track> src
+  fastify.get('/tracks/:trackId', {
+    attachValidation: true,
+    schema: {
+      params: {
+        type: 'object',
+        required: ['trackId'],
+        properties: {
+          trackId: { type: 'string', pattern: '^[a-zA-Z0-9_-]{32}$' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      if (request.validationError) {
+        throw new NotFoundError('Subtitle track not found or expired');
+      }
+
+      const { trackId } = request.params as { trackId: string };
+      const vtt = await subtitleService.getTrackVtt(trackId);
+
+      return reply
+        .header('Content-Type', 'text/vtt; charset=utf-8')
+        .header('Cache-Control', `public, max-age=${SUBTITLE_CACHE_TTL}`)
+        .send(vtt);
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Get subtitle track', trackId: (request.params as any).trackId });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+};
+
+export default subtitlesRoutes;
@@ -0,0 +1,72 @@
+import { FastifyPluginAsync } from 'fastify';
+import { traktService } from '../services/traktService';
+import { supabaseAuth } from '../middleware/supabaseAuth';
+import { createSafeErrorResponse, logErrorWithDetails } from '../utils/errorHandler';
+
+const traktRoutes: FastifyPluginAsync = async (fastify) => {
+  // Trakt accounts are linked to the authenticated Supabase user
+  fastify.addHook('onRequest', supabaseAuth);
+
+  // Start linking a Trakt account with the device-code flow
+  fastify.post('/device/code', async (request, reply) => {
+    try {
+      const user = (request as any).user;
+      const deviceCode = await traktService.startDeviceAuth(user.userId);
+
+      return { success: true, data: deviceCode };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Start Trakt device auth' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Poll for the result of a pending link; clients should wait `interval` seconds between polls
+  fastify.post('/device/token', async (request, reply) => {
+    try {
+      const user = (request as any).user;
+      const status = await traktService.pollDeviceAuth(user.userId);
+
+      return { success: true, data: { status } };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Poll Trakt device auth' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Whether the user has a linked Trakt account
+  fastify.get('/status', async (request, reply) => {
+    try {
+      const user = (request as any).user;
+
+      return {
+        success: true,
+        data: {
+          configured: traktService.isConfigured(),
+          linked: await traktService.isLinked(user.userId)
+        }
+      };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Get Trakt link status' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Unlink the user's Trakt account and revoke its token
+  fastify.delete('/link', async (request, reply) => {
+    try {
+      const user = (request as any).user;
+      await traktService.unlink(user.userId);
+
+      return { success: true, message: 'Trakt account unlinked' };
+    } catch (error) {
+      logErrorWithDetails(error, { context: 'Unlink Trakt account' });
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+};
+
+export default traktRoutes;
@@ -1,9 +1,43 @@
 import { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
 import { watchTogetherService } from '../services/watchTogetherService';
+import { roomChatService } from '../services/roomChatService';
 import { sanitizeRoomData, sanitizePlaybackAction, sanitizeUserId } from '../utils/sanitizer';
 import { createSafeErrorResponse, logErrorWithDetails } from '../utils/errorHandler';
 import { logger } from '../utils/logger';
 import { supabaseAuth } from '../middleware/supabaseAuth';
+import { RoomRole } from '../types/index';
+import { ROOM_QUEUE_MAX_SIZE } from '../config/environment';
+import { ROOM_ROLE_PERMISSIONS, ASSIGNABLE_ROOM_ROLES, getRoomRole, hasRoomPermission, outranks } from '../utils/roomRoles';
+
+const queueItemSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    mediaId: { type: 'string' },
+    mediaType: { type: 'string', enum: ['movie', 'tv', 'anime'] },
+    season: { type: 'integer' },
+    episode: { type: 'integer' },
+    animeVariant: { type: 'string', enum: ['sub', 'dub'] },
+    addedBy: { type: 'string' },
+    addedAt: { type: 'number' }
+  }
+};
+
+const roleResponseSchema = {
+  type: 'object',
+  required: ['success', 'data'],
+  properties: {
+    success: { type: 'boolean' },
+    data: {
+      type: 'object',
+      properties: {
+        userId: { type: 'string' },
+        role: { type: 'string', enum: ['host', 'moderator', 'viewer', 'guest'] },
+        permissions: { type: 'array', items: { type: 'string' } }
+      }
+    }
+  }
+};
 
 const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
   const io = (fastify as any).io;
@@ -20,8 +54,25 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
         properties: {
           name: { type: 'string', maxLength: 100 },
           mediaId: { type: 'string', maxLength: 20 },
-          mediaType: { type: 'string', enum: ['movie', 'tv'] },
-          providerId: { type: 'string', maxLength: 50 }
+          mediaType: { type: 'string', enum: ['movie', 'tv', 'anime'] },
+          animeVariant: { type: 'string', enum: ['sub', 'dub'] },
+          providerId: { type: 'string', maxLength: 50 },
+          // Played in order after the room's first media when autoPlay is on
+          queue: {
+            type: 'array',
+            maxItems: ROOM_QUEUE_MAX_SIZE,
+            items: {
+              type: 'object',
+              required: ['mediaId', 'mediaType'],
+              properties: {
+                mediaId: { type: 'string', maxLength: 20 },
+                mediaType: { type: 'string', enum: ['movie', 'tv', 'anime'] },
+                season: { type: 'integer', minimum: 1 },
+                episode: { type: 'integer', minimum: 1 },
+                animeVariant: { type: 'string', enum: ['sub', 'dub'] }
+              }
+            }
+          }
         }
       },
       response: {
@@ -38,7 +89,8 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
                 name: { type: 'string' },
                 adminId: { type: 'string' },
                 mediaId: { type: 'string' },
-                mediaType: { type: 'string', enum: ['movie', 'tv'] },
+                mediaType: { type: 'string', enum: ['movie', 'tv', 'anime'] },
+                animeVariant: { type: 'string', enum: ['sub', 'dub'] },
                 participants: { type: 'array', items: { type: 'string' } },
                 currentState: {
                   type: 'object',
@@ -49,6 +101,7 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
                     playbackRate: { type: 'number' }
                   }
                 },
+                queue: { type: 'array', items: queueItemSchema },
                 createdAt: { type: 'string', format: 'date-time' },
                 updatedAt: { type: 'string', format: 'date-time' }
               }
@@ -104,7 +157,9 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
         adminId: adminId,
         mediaId: roomData.mediaId,
         mediaType: roomData.mediaType,
-        providerId: roomData.providerId
+        animeVariant: roomData.animeVariant,
+        providerId: roomData.providerId,
+        queue: (request.body as any).queue
       });
 
       return { success: true, data: newRoom };
@@ -146,7 +201,8 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
                 name: { type: 'string' },
                 adminId: { type: 'string' },
                 mediaId: { type: 'string' },
-                mediaType: { type: 'string', enum: ['movie', 'tv'] },
+                mediaType: { type: 'string', enum: ['movie', 'tv', 'anime'] },
+                animeVariant: { type: 'string', enum: ['sub', 'dub'] },
                 participants: { type: 'array', items: { type: 'string' } },
                 currentState: {
                   type: 'object',
@@ -358,7 +414,8 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
                 name: { type: 'string' },
                 adminId: { type: 'string' },
                 mediaId: { type: 'string' },
-                mediaType: { type: 'string', enum: ['movie', 'tv'] },
+                mediaType: { type: 'string', enum: ['movie', 'tv', 'anime'] },
+                animeVariant: { type: 'string', enum: ['sub', 'dub'] },
                 participants: { type: 'array', items: { type: 'string' } },
                 currentState: {
                   type: 'object',
@@ -369,12 +426,37 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
                     playbackRate: { type: 'number' }
                   }
                 },
+                queue: { type: 'array', items: queueItemSchema },
+                roles: {
+                  type: 'object',
+                  additionalProperties: { type: 'string', enum: ['moderator', 'viewer', 'guest'] }
+                },
+                clock: {
+                  type: 'object',
+                  properties: {
+                    anchorPosition: { type: 'number' },
+                    anchorTime: { type: 'number' },
+                    rate: { type: 'number' },
+                    isPlaying: { type: 'boolean' },
+                    position: { type: 'number' },
+                    serverTime: { type: 'number' }
+                  }
+                },
                 createdAt: { type: 'string', format: 'date-time' },
                 updatedAt: { type: 'string', format: 'date-time' }
               }
             }
           }
         },
+        403: {
+          type: 'object',
+          required: ['statusCode', 'error', 'message'],
+          properties: {
+            statusCode: { type: 'number' },
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        },
         404: {
           type: 'object',
           required: ['statusCode', 'error', 'message'],
@@ -398,6 +480,7 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
   }, async (request, reply) => {
     try {
       const { roomId } = request.params as { roomId: string };
+      const user = (request as any).user;
       
       const room = await wtService.getRoom(roomId);
       if (!room) {
@@ -408,7 +491,15 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
         });
       }
 
-      return { success: true, data: room };
+      if (!getRoomRole(room, user.userId)) {
+        return reply.code(403).send({
+          statusCode: 403,
+          error: 'Forbidden',
+          message: 'Only room participants can view the room'
+        });
+      }
+
+      return { success: true, data: { ...room, clock: wtService.getClockState(room) } };
     } catch (error) {
       logErrorWithDetails(error, { 
         context: 'Get watch-together room',
@@ -420,6 +511,110 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // Get a room's chat history, newest first; pass nextCursor back as cursor for older messages
+  fastify.get('/rooms/:roomId/messages', {
+    schema: {
+      params: {
+        type: 'object',
+        required: ['roomId'],
+        properties: {
+          roomId: { type: 'string', maxLength: 50 }
+        }
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 50 },
+          cursor: { type: 'string', maxLength: 36 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          required: ['success', 'data'],
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              required: ['messages', 'nextCursor'],
+              properties: {
+                messages: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      roomId: { type: 'string' },
+                      userId: { type: 'string' },
+                      username: { type: 'string' },
+                      message: { type: 'string' },
+                      timestamp: { type: 'string', format: 'date-time' },
+                      type: { type: 'string', enum: ['text', 'system', 'action'] }
+                    }
+                  }
+                },
+                nextCursor: { type: ['string', 'null'] }
+              }
+            }
+          }
+        },
+        403: {
+          type: 'object',
+          required: ['statusCode', 'error', 'message'],
+          properties: {
+            statusCode: { type: 'number' },
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        },
+        404: {
+          type: 'object',
+          required: ['statusCode', 'error', 'message'],
+          properties: {
+            statusCode: { type: 'number' },
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { roomId } = request.params as { roomId: string };
+      const { limit = 50, cursor } = request.query as { limit?: number; cursor?: string };
+      const user = (request as any).user;
+
+      const room = await wtService.getRoom(roomId);
+      if (!room) {
+        return reply.code(404).send({
+          statusCode: 404,
+          error: 'Not Found',
+          message: 'Room not found'
+        });
+      }
+
+      if (!getRoomRole(room, user.userId)) {
+        return reply.code(403).send({
+          statusCode: 403,
+          error: 'Forbidden',
+          message: 'Only room participants can read the chat'
+        });
+      }
+
+      const page = await roomChatService.getHistory(roomId, limit, cursor);
+
+      return { success: true, data: page };
+    } catch (error) {
+      logErrorWithDetails(error, {
+        context: 'Get watch-together chat history',
+        roomId: (request.params as any).roomId
+      });
+
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
   // Get all rooms
   fastify.get('/rooms', {
     schema: {
@@ -439,7 +634,8 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
                   name: { type: 'string' },
                   adminId: { type: 'string' },
                   mediaId: { type: 'string' },
-                  mediaType: { type: 'string', enum: ['movie', 'tv'] },
+                  mediaType: { type: 'string', enum: ['movie', 'tv', 'anime'] },
+                  animeVariant: { type: 'string', enum: ['sub', 'dub'] },
                   participants: { type: 'array', items: { type: 'string' } },
                   currentState: {
                     type: 'object',
@@ -604,11 +800,11 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
         });
       }
 
-      if (room.adminId !== sanitizedCurrentAdmin) {
+      if (!hasRoomPermission(room, sanitizedCurrentAdmin, 'manageRoom')) {
         return reply.code(403).send({
           statusCode: 403,
           error: 'Forbidden',
-          message: 'Only current admin can transfer ownership'
+          message: 'Only the host can transfer ownership'
         });
       }
 
@@ -723,15 +919,15 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
         });
       }
 
-      if (room.adminId !== sanitizedAdmin) {
+      if (!hasRoomPermission(room, sanitizedAdmin, 'kick')) {
         return reply.code(403).send({
           statusCode: 403,
           error: 'Forbidden',
-          message: 'Only admin can kick users'
+          message: 'Your role cannot kick users in this room'
         });
       }
 
-      if (!room.participants.includes(sanitizedUserToKick)) {
+      if (!(await wtService.hasParticipant(room, sanitizedUserToKick))) {
         return reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
@@ -743,7 +939,15 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
         return reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: 'Admin cannot kick themselves'
+          message: 'You cannot kick yourself'
+        });
+      }
+
+      if (!outranks(room, sanitizedAdmin, sanitizedUserToKick)) {
+        return reply.code(403).send({
+          statusCode: 403,
+          error: 'Forbidden',
+          message: 'You can only kick members with a lower role'
         });
       }
 
@@ -770,6 +974,140 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
   });
 
 
+  // Grant a member a role (host only)
+  fastify.put('/rooms/:roomId/roles/:userId', {
+    schema: {
+      params: {
+        type: 'object',
+        required: ['roomId', 'userId'],
+        properties: {
+          roomId: { type: 'string', maxLength: 50 },
+          userId: { type: 'string', maxLength: 50 }
+        }
+      },
+      body: {
+        type: 'object',
+        required: ['role'],
+        properties: {
+          role: { type: 'string', enum: ASSIGNABLE_ROOM_ROLES }
+        }
+      },
+      response: {
+        200: roleResponseSchema,
+        400: {
+          type: 'object',
+          required: ['statusCode', 'error', 'message'],
+          properties: {
+            statusCode: { type: 'number' },
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        },
+        403: {
+          type: 'object',
+          required: ['statusCode', 'error', 'message'],
+          properties: {
+            statusCode: { type: 'number' },
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        },
+        404: {
+          type: 'object',
+          required: ['statusCode', 'error', 'message'],
+          properties: {
+            statusCode: { type: 'number' },
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { roomId, userId } = request.params as { roomId: string; userId: string };
+      const { role } = request.body as { role: RoomRole };
+      const user = (request as any).user;
+
+      const targetUserId = sanitizeUserId(userId);
+
+      const newRole = await wtService.setUserRole(roomId, user.userId, targetUserId, role);
+
+      return { success: true, data: { userId: targetUserId, role: newRole, permissions: ROOM_ROLE_PERMISSIONS[newRole] } };
+    } catch (error) {
+      logErrorWithDetails(error, {
+        context: 'Set watch-together role',
+        roomId: (request.params as any).roomId
+      });
+
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
+  // Revoke a member's role, returning them to viewer (host only)
+  fastify.delete('/rooms/:roomId/roles/:userId', {
+    schema: {
+      params: {
+        type: 'object',
+        required: ['roomId', 'userId'],
+        properties: {
+          roomId: { type: 'string', maxLength: 50 },
+          userId: { type: 'string', maxLength: 50 }
+        }
+      },
+      response: {
+        200: roleResponseSchema,
+        400: {
+          type: 'object',
+          required: ['statusCode', 'error', 'message'],
+          properties: {
+            statusCode: { type: 'number' },
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        },
+        403: {
+          type: 'object',
+          required: ['statusCode', 'error', 'message'],
+          properties: {
+            statusCode: { type: 'number' },
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        },
+        404: {
+          type: 'object',
+          required: ['statusCode', 'error', 'message'],
+          properties: {
+            statusCode: { type: 'number' },
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { roomId, userId } = request.params as { roomId: string; userId: string };
+      const user = (request as any).user;
+
+      const targetUserId = sanitizeUserId(userId);
+
+      const newRole = await wtService.setUserRole(roomId, user.userId, targetUserId, null);
+
+      return { success: true, data: { userId: targetUserId, role: newRole, permissions: ROOM_ROLE_PERMISSIONS[newRole] } };
+    } catch (error) {
+      logErrorWithDetails(error, {
+        context: 'Revoke watch-together role',
+        roomId: (request.params as any).roomId
+      });
+
+      const safeError = createSafeErrorResponse(error);
+      return reply.code(safeError.statusCode as any).send(safeError);
+    }
+  });
+
   // Admin ends watch together session
   fastify.post('/rooms/:roomId/end-session', {
     schema: {
@@ -849,11 +1187,11 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
         });
       }
 
-      if (room.adminId !== sanitizedAdmin) {
+      if (!hasRoomPermission(room, sanitizedAdmin, 'manageRoom')) {
         return reply.code(403).send({
           statusCode: 403,
           error: 'Forbidden',
-          message: 'Only admin can end session'
+          message: 'Only the host can end the session'
         });
       }
 
@@ -950,11 +1288,11 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
         });
       }
 
-      if (room.adminId !== sanitizedAdmin) {
+      if (!hasRoomPermission(room, sanitizedAdmin, 'controlPlayback')) {
         return reply.code(403).send({
           statusCode: 403,
           error: 'Forbidden',
-          message: 'Only admin can skip time'
+          message: 'Your role cannot control playback in this room'
         });
       }
 
@@ -1048,11 +1386,11 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
         });
       }
 
-      if (room.adminId !== sanitizedAdmin) {
+      if (!hasRoomPermission(room, sanitizedAdmin, 'controlPlayback')) {
         return reply.code(403).send({
           statusCode: 403,
           error: 'Forbidden',
-          message: 'Only admin can stop playback'
+          message: 'Your role cannot control playback in this room'
         });
       }
 
@@ -1094,6 +1432,15 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
             }
           }
         },
+        403: {
+          type: 'object',
+          required: ['statusCode', 'error', 'message'],
+          properties: {
+            statusCode: { type: 'number' },
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        },
         404: {
           type: 'object',
           required: ['statusCode', 'error', 'message'],
@@ -1108,6 +1455,7 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
   }, async (request, reply) => {
     try {
       const { roomId } = request.params as { roomId: string };
+      const user = (request as any).user;
       
       const room = await wtService.getRoom(roomId);
       if (!room) {
@@ -1118,6 +1466,14 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
         });
       }
 
+      if (!hasRoomPermission(room, user.userId, 'invite')) {
+        return reply.code(403).send({
+          statusCode: 403,
+          error: 'Forbidden',
+          message: 'Your role cannot invite others to this room'
+        });
+      }
+
       return {
         success: true,
         data: {
@@ -1225,11 +1581,11 @@ const watchTogetherRoutes: FastifyPluginAsync = async (fastify) => {
         });
       }
 
-      if (room.adminId !== sanitizedAdmin) {
+      if (!hasRoomPermission(room, sanitizedAdmin, 'manageRoom')) {
         return reply.code(403).send({
           statusCode: 403,
           error: 'Forbidden',
-          message: 'Only admin can update room settings'
+          message: 'Only the host can update room settings'
         });
       }
 
@@ -15,18 +15,27 @@ import { initSupabase } from './config/supabase';
 import { initOneSignal } from './config/onesignal';
 import betterUptimeService from './config/betterUptime';
 import userRateLimitService from './services/userRateLimitService';
+import providerRegistry from './services/providerRegistry';
+import providerHealthService from './services/providerHealthService';
+import proxyPoolService from './services/proxyPoolService';
+import providerMaintenanceService from './services/providerMaintenanceService';
 
 // Import routes
 import providerRoutes from './routes/providers';
 import watchTogetherRoutes from './routes/watchTogether';
 import notificationsRoutes from './routes/notifications';
+import traktRoutes from './routes/trakt';
+import subtitlesRoutes from './routes/subtitles';
 
 // Load environment variables from .env file
 dotenv.config();
 validateEnvironment();
 
 const config = getAppConfig();
-const fastify = Fastify({ logger: false }); // We'll use our custom logger
+const fastify = Fastify({
+  logger: false, // We'll use our custom logger
+  maxParamLength: 1024 // Signed embed tokens are passed as a path parameter
+});
 
 fastify.register(cors, config.cors);
 
@@ -253,11 +262,15 @@ fastify.get('/', async () => {
 fastify.register(providerRoutes, { prefix: '/v1/providers' });
 fastify.register(watchTogetherRoutes, { prefix: '/v1/watch-together' });
 fastify.register(notificationsRoutes, { prefix: '/v1/notifications' });
+fastify.register(traktRoutes, { prefix: '/v1/trakt' });
+fastify.register(subtitlesRoutes, { prefix: '/v1/subtitles' });
 
 // Legacy routes without versioning for backward compatibility
 fastify.register(providerRoutes, { prefix: '/providers' });
 fastify.register(watchTogetherRoutes, { prefix: '/watch-together' });
 fastify.register(notificationsRoutes, { prefix: '/notifications' });
+fastify.register(traktRoutes, { prefix: '/trakt' });
+fastify.register(subtitlesRoutes, { prefix: '/subtitles' });
 
 const start = async () => {
   try {
@@ -284,6 +297,20 @@ const start = async () => {
     // Connect to Redis first
     await connectToRedis();
     logger.info('Connected to Redis successfully');
+
+    // Apply runtime provider changes stored in Redis
+    await providerRegistry.loadFromRedis();
+    providerRegistry.startSync();
+
+    // Restore scheduled provider maintenance windows
+    await providerMaintenanceService.loadFromRedis();
+    providerMaintenanceService.startSync();
+
+    // Add outbound proxies stored in Redis to the pool
+    await proxyPoolService.loadFromRedis();
+
+    // Start probing provider health in the background
+    await providerHealthService.start();
     
     // Set up Socket.IO
     const io = new Server(fastify.server, {
@@ -357,6 +384,11 @@ const gracefulShutdown = async (signal: string) => {
     // Stop accepting new connections
     await fastify.close();
 
+    // Stop background provider probes
+    providerHealthService.stop();
+    providerRegistry.stopSync();
+    providerMaintenanceService.stopSync();
+
     // Close Redis connections
     try {
       const redis = getRedisClient();
@@ -0,0 +1,111 @@
+import { gzipSync, gunzipSync } from 'zlib';
+import { logger } from '../utils/logger';
+import { getRedisClient, RedisKeys } from '../config/redis';
+import { ENABLE_CACHING } from '../config/environment';
+import { CacheOptions } from '../types/index';
+
+const DEFAULT_TTL = 3600; // 1 hour
+
+interface CacheEnvelope {
+  compressed: boolean;
+  data: string;
+}
+
+/**
+ * Redis-backed JSON cache with tag-based invalidation.
+ * Each tag keeps a set of the cache keys written under it.
+ */
+class CacheService {
+  private static instance: CacheService;
+
+  public static getInstance(): CacheService {
+    if (!CacheService.instance) {
+      CacheService.instance = new CacheService();
+    }
+    return CacheService.instance;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    if (!ENABLE_CACHING) return null;
+
+    try {
+      const client = getRedisClient();
+      const raw = await client.get(key);
+      if (!raw) return null;
+
+      const envelope: CacheEnvelope = JSON.parse(raw);
+      const json = envelope.compressed
+        ? gunzipSync(Buffer.from(envelope.data, 'base64')).toString('utf8')
+        : envelope.data;
+
+      return JSON.parse(json) as T;
+    } catch (error) {
+      logger.warn(`Cache read failed for ${key}:`, error);
+      return null;
+    }
+  }
+
+  async set<T>(key: string, value: T, options: CacheOptions = {}): Promise<void> {
+    if (!ENABLE_CACHING) return;
+
+    const ttl = options.ttl ?? DEFAULT_TTL;
+
+    try {
+      const client = getRedisClient();
+      const json = JSON.stringify(value);
+      const envelope: CacheEnvelope = options.compress
+        ? { compressed: true, data: gzipSync(json).toString('base64') }
+        : { compressed: false, data: json };
+
+      await client.set(key, JSON.stringify(envelope), { EX: ttl });
+
+      for (const tag of options.tags || []) {
+        const tagKey = `${RedisKeys.cacheTags}${tag}`;
+        await client.sadd(tagKey, key);
+
+        // Only ever extend a tag's lifetime, or it could expire before entries written with a longer TTL
+        const current = Number((await client.ttl(tagKey))?.result);
+        if (!(current >= ttl)) {
+          await client.expire(tagKey, ttl);
+        }
+      }
+    } catch (error) {
+      logger.warn(`Cache write failed for ${key}:`, error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      const client = getRedisClient();
+      await client.del(key);
+    } catch (error) {
+      logger.warn(`Cache delete failed for ${key}:`, error);
+    }
+  }
+
+  /**
+   * Delete every entry written under a tag. Returns the number of keys removed.
+   */
+  async invalidateTag(tag: string): Promise<number> {
+    try {
+      const client = getRedisClient();
+      const tagKey = `${RedisKeys.cacheTags}${tag}`;
+      const result = await client.smembers(tagKey);
+      const keys: string[] = result?.result || [];
+
+      for (const key of keys) {
+        await client.del(key);
+      }
+      await client.del(tagKey);
+
+      logger.info(`Invalidated ${keys.length} cache entries for tag ${tag}`);
+      return keys.length;
+    } catch (error) {
+      logger.error(`Cache invalidation failed for tag ${tag}:`, error);
+      return 0;
+    }
+  }
+}
+
+export const cacheService = CacheService.getInstance();
+export default cacheService;
@@ -1,4 +1,5 @@
 import { logger } from '../utils/logger';
+import { ValidationError, NotFoundError } from '../utils/errorHandler';
 
 enum CircuitState {
   CLOSED = 'CLOSED',     // Normal operation
@@ -74,6 +75,11 @@ class CircuitBreakerService {
       this.recordSuccess(serviceName, circuit);
       return result;
     } catch (error) {
+      // Bad input and unknown titles say nothing about the service's health
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw error;
+      }
+
       this.recordFailure(serviceName, circuit);
       logger.warn(`Circuit breaker failure recorded for ${serviceName}:`, error instanceof Error ? error.message : String(error));
 
@@ -0,0 +1,145 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { EMBED_SIGNING_SECRET, EMBED_SIGNED_URL_TTL, EMBED_VIEWER_SESSION_TTL, PUBLIC_API_URL } from '../config/environment';
+import { AuthenticationError, ValidationError } from '../utils/errorHandler';
+
+export interface SignedEmbedPayload {
+  embedUrl: string;
+  provider: string;
+  userId: string;
+  expiresAt: number; // Unix ms
+}
+
+// Proves which user the browser belongs to; sent as a cookie because iframes and redirects can't send auth headers
+export interface ViewerSession {
+  kind: 'viewer';
+  userId: string;
+  expiresAt: number; // Unix ms
+}
+
+export interface SignedEmbedUrl {
+  signedUrl: string;
+  token: string;
+  expiresAt: number;
+}
+
+/**
+ * HMAC-signed, expiring wrapper URLs for embeds.
+ * Token format: base64url(JSON payload) + '.' + base64url(HMAC-SHA256 of the payload part)
+ */
+class EmbedSigningService {
+  private static instance: EmbedSigningService;
+
+  public static getInstance(): EmbedSigningService {
+    if (!EmbedSigningService.instance) {
+      EmbedSigningService.instance = new EmbedSigningService();
+    }
+    return EmbedSigningService.instance;
+  }
+
+  isConfigured(): boolean {
+    return !!EMBED_SIGNING_SECRET;
+  }
+
+  sign(embedUrl: string, provider: string, userId: string, ttlSeconds: number = EMBED_SIGNED_URL_TTL): SignedEmbedUrl {
+    if (!this.isConfigured()) {
+      throw new ValidationError('Signed embed URLs are not enabled (EMBED_SIGNING_SECRET is not set)');
+    }
+    if (!userId) {
+      throw new ValidationError('A user ID is required for signed embed URLs');
+    }
+
+    const payload: SignedEmbedPayload = {
+      embedUrl,
+      provider,
+      userId,
+      expiresAt: Date.now() + ttlSeconds * 1000
+    };
+
+    const token = this.encode(payload);
+
+    return {
+      signedUrl: `${PUBLIC_API_URL}/v1/providers/redirect/${token}`,
+      token,
+      expiresAt: payload.expiresAt
+    };
+  }
+
+  /**
+   * Verify a token and return its payload. Throws AuthenticationError on a bad signature,
+   * an expired token, or (when expectedUserId is given) a user mismatch.
+   */
+  verify(token: string, expectedUserId?: string): SignedEmbedPayload {
+    const payload = this.decode<SignedEmbedPayload & { kind?: string }>(token, 'Embed token');
+
+    if (payload.kind || !payload.embedUrl) {
+      throw new AuthenticationError('Malformed embed token');
+    }
+
+    if (expectedUserId && payload.userId !== expectedUserId) {
+      throw new AuthenticationError('Embed token was issued to a different user');
+    }
+
+    return payload;
+  }
+
+  createViewerSession(userId: string, ttlSeconds: number = EMBED_VIEWER_SESSION_TTL): { value: string; expiresAt: number } {
+    if (!this.isConfigured()) {
+      throw new ValidationError('Signed embed URLs are not enabled (EMBED_SIGNING_SECRET is not set)');
+    }
+
+    const session: ViewerSession = { kind: 'viewer', userId, expiresAt: Date.now() + ttlSeconds * 1000 };
+    return { value: this.encode(session), expiresAt: session.expiresAt };
+  }
+
+  // User id of a valid viewer session; throws AuthenticationError otherwise
+  verifyViewerSession(value: string): string {
+    const session = this.decode<ViewerSession>(value, 'Viewer session');
+    if (session.kind !== 'viewer' || !session.userId) {
+      throw new AuthenticationError('Malformed viewer session');
+    }
+
+    return session.userId;
+  }
+
+  private encode(payload: object): string {
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encodedPayload}.${this.signature(encodedPayload)}`;
+  }
+
+  private decode<T extends { expiresAt: number }>(token: string, label: string): T {
+    if (!this.isConfigured()) {
+      throw new AuthenticationError('Signed embed URLs are not enabled');
+    }
+
+    const [encodedPayload, signature] = token.split('.');
+    if (!encodedPayload || !signature) {
+      throw new AuthenticationError(`Malformed ${label.toLowerCase()}`);
+    }
+
+    const expected = Buffer.from(this.signature(encodedPayload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new AuthenticationError(`Invalid ${label.toLowerCase()} signature`);
+    }
+
+    let payload: T;
+    try {
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    } catch {
+      throw new AuthenticationError(`Malformed ${label.toLowerCase()}`);
+    }
+
+    if (!payload?.expiresAt || Date.now() > payload.expiresAt) {
+      throw new AuthenticationError(`${label} has expired`);
+    }
+
+    return payload;
+  }
+
+  private signature(encodedPayload: string): string {
+    return createHmac('sha256', EMBED_SIGNING_SECRET).update(encodedPayload).digest('base64url');
+  }
+}
+
+export const embedSigningService = EmbedSigningService.getInstance();
+export default embedSigningService;
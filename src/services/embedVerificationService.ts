@@ -0,0 +1,117 @@
+import { AxiosInstance } from 'axios';
+import { logger } from '../utils/logger';
+import { RedisKeys } from '../config/redis';
+import { EMBED_VERIFICATION_TTL, EMBED_VERIFICATION_TIMEOUT } from '../config/environment';
+import { ProviderError } from '../utils/errorHandler';
+import { EmbedVerification, MediaType, AnimeVariant } from '../types/index';
+import { cacheService } from './cacheService';
+import { proxyPoolService } from './proxyPoolService';
+
+// Provider responses that mean the title itself doesn't exist
+const UNAVAILABLE_STATUS_CODES = [404, 410];
+
+/**
+ * Probes generated embed URLs to catch titles a provider doesn't actually have.
+ * Results are cached per provider and title under the same tags as the embed cache,
+ * so invalidating a provider or title also drops its verification results.
+ */
+class EmbedVerificationService {
+  private static instance: EmbedVerificationService;
+  private httpClient: AxiosInstance = proxyPoolService.createHttpClient();
+
+  public static getInstance(): EmbedVerificationService {
+    if (!EmbedVerificationService.instance) {
+      EmbedVerificationService.instance = new EmbedVerificationService();
+    }
+    return EmbedVerificationService.instance;
+  }
+
+  async verify(provider: string, embedUrl: string, mediaType: MediaType, mediaId: string, season?: number, episode?: number, animeVariant?: AnimeVariant): Promise<EmbedVerification> {
+    const cacheKey = this.getCacheKey(provider, mediaType, mediaId, season, episode, animeVariant);
+    const cached = await cacheService.get<EmbedVerification>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const verification = await this.probe(embedUrl);
+
+    // Inconclusive probes are retried on the next request instead of being cached
+    if (verification.status !== 'unknown') {
+      await cacheService.set(cacheKey, verification, {
+        ttl: EMBED_VERIFICATION_TTL,
+        tags: [`provider:${provider}`, `media:${mediaType}:${mediaId}`]
+      });
+    }
+
+    if (verification.status === 'unavailable') {
+      logger.info(`Provider ${provider} does not have ${mediaType} ${mediaId} (HTTP ${verification.statusCode})`);
+    }
+
+    return verification;
+  }
+
+  /**
+   * Throw a ProviderError (404) when the provider is known not to have the title
+   */
+  async assertAvailable(provider: string, embedUrl: string, mediaType: MediaType, mediaId: string, season?: number, episode?: number, animeVariant?: AnimeVariant): Promise<void> {
+    const verification = await this.verify(provider, embedUrl, mediaType, mediaId, season, episode, animeVariant);
+    if (verification.status !== 'unavailable') return;
+
+    const titles: Record<MediaType, string> = {
+      movie: `Movie ${mediaId}`,
+      tv: `Episode ${mediaId} S${season}E${episode}`,
+      anime: `Anime episode ${mediaId} #${episode} (${animeVariant})`
+    };
+    const error = new ProviderError(`${titles[mediaType]} is not available on provider ${provider}`, provider);
+    error.statusCode = 404;
+    error.details = {
+      provider,
+      reason: 'embed_unavailable',
+      statusCode: verification.statusCode,
+      checkedAt: verification.checkedAt
+    };
+    throw error;
+  }
+
+  private async probe(embedUrl: string): Promise<EmbedVerification> {
+    try {
+      let response = await this.httpClient.head(embedUrl, {
+        timeout: EMBED_VERIFICATION_TIMEOUT,
+        maxRedirects: 3,
+        validateStatus: () => true
+      });
+
+      // Some providers reject HEAD, retry with GET
+      if (response.status === 405 || response.status === 501) {
+        response = await this.httpClient.get(embedUrl, {
+          timeout: EMBED_VERIFICATION_TIMEOUT,
+          maxRedirects: 3,
+          validateStatus: () => true
+        });
+      }
+
+      let status: EmbedVerification['status'] = 'unknown';
+      if (UNAVAILABLE_STATUS_CODES.includes(response.status)) {
+        status = 'unavailable';
+      } else if (response.status < 400) {
+        status = 'available';
+      }
+
+      return { status, statusCode: response.status, checkedAt: Date.now() };
+    } catch (error) {
+      logger.debug(`Embed verification probe failed for ${embedUrl}:`, error instanceof Error ? error.message : error);
+      return { status: 'unknown', checkedAt: Date.now() };
+    }
+  }
+
+  private getCacheKey(provider: string, mediaType: string, mediaId: string, season?: number, episode?: number, animeVariant?: AnimeVariant): string {
+    const base = `${RedisKeys.providerCache}verify:${provider}:${mediaType}:${mediaId}`;
+    if (mediaType === 'anime') {
+      return `${base}:${episode}:${animeVariant}`;
+    }
+    return mediaType === 'tv' ? `${base}:${season}:${episode}` : base;
+  }
+}
+
+export const embedVerificationService = EmbedVerificationService.getInstance();
+export default embedVerificationService;
@@ -0,0 +1,124 @@
+import { logger } from '../utils/logger';
+import { getRedisClient, RedisKeys } from '../config/redis';
+import { ValidationError, NotFoundError, ExternalServiceError } from '../utils/errorHandler';
+import { MediaIds, MediaType, ProviderIdType } from '../types/index';
+import { providerRegistry, ID_TYPE_PATTERNS } from './providerRegistry';
+import { metadataService, toMetadataType } from './metadataService';
+
+/**
+ * Converts between TMDB, IMDb and TVDB ids using TMDB's external id lookups.
+ * Mappings don't change, so they're stored in Redis without expiry under every id they contain.
+ */
+class IdMappingService {
+  private static instance: IdMappingService;
+
+  public static getInstance(): IdMappingService {
+    if (!IdMappingService.instance) {
+      IdMappingService.instance = new IdMappingService();
+    }
+    return IdMappingService.instance;
+  }
+
+  // TMDB and TVDB ids are both numeric, so callers have to name TVDB ids explicitly
+  detectIdType(mediaId: string): ProviderIdType {
+    return ID_TYPE_PATTERNS.imdb.test(mediaId) ? 'imdb' : 'tmdb';
+  }
+
+  assertIdType(mediaId: string, idType: ProviderIdType): void {
+    if (!ID_TYPE_PATTERNS[idType].test(mediaId)) {
+      throw new ValidationError(`Invalid ${idType} id: ${mediaId}`);
+    }
+  }
+
+  async getIds(mediaId: string, idType: ProviderIdType, mediaType: MediaType): Promise<MediaIds> {
+    this.assertIdType(mediaId, idType);
+
+    const metadataType = toMetadataType(mediaType);
+    const cached = await this.readMapping(metadataType, idType, mediaId);
+    if (cached) {
+      return cached;
+    }
+
+    const tmdb = idType === 'tmdb' ? mediaId : await metadataService.findTmdbId(mediaId, idType, metadataType);
+    const ids: MediaIds = { tmdb, ...(await metadataService.getExternalIds(tmdb, metadataType)) };
+
+    // Keep the id we were asked about even when TMDB lists a different one
+    if (idType !== 'tmdb') {
+      ids[idType] = mediaId;
+    }
+
+    await this.writeMapping(metadataType, ids);
+    return ids;
+  }
+
+  /**
+   * Work on TMDB ids where possible, since metadata lookups, anime mapping and cache keys assume them.
+   * IMDb ids are kept when TMDB is unavailable so providers that take them can still serve the title.
+   */
+  async normalize(mediaId: string, mediaType: MediaType, idType?: ProviderIdType): Promise<string> {
+    const type = idType || this.detectIdType(mediaId);
+    if (type === 'tmdb' || (type === 'imdb' && !metadataService.isConfigured())) {
+      this.assertIdType(mediaId, type);
+      return mediaId;
+    }
+
+    try {
+      return await this.convert(mediaId, type, 'tmdb', mediaType);
+    } catch (error) {
+      if (type === 'imdb' && error instanceof ExternalServiceError) {
+        logger.warn(`Passing IMDb id ${mediaId} through unmapped:`, error.message);
+        return mediaId;
+      }
+      throw error;
+    }
+  }
+
+  async convert(mediaId: string, from: ProviderIdType, to: ProviderIdType, mediaType: MediaType): Promise<string> {
+    if (from === to) {
+      this.assertIdType(mediaId, from);
+      return mediaId;
+    }
+
+    const converted = (await this.getIds(mediaId, from, mediaType))[to];
+    if (!converted) {
+      throw new NotFoundError(`No ${to} id is known for ${from} id ${mediaId}`);
+    }
+
+    return converted;
+  }
+
+  /**
+   * The id to hand a provider: converted to the id type its URL template declares, unchanged otherwise.
+   * The input is a TMDB or IMDb id, told apart by format.
+   */
+  async toProviderId(providerId: string, mediaId: string, mediaType: MediaType): Promise<string> {
+    const required = providerRegistry.get(providerId)?.urlTemplates?.[mediaType]?.idType;
+    return required ? this.convert(mediaId, this.detectIdType(mediaId), required, mediaType) : mediaId;
+  }
+
+  // Lookups still work through TMDB when Redis is unavailable
+  private async readMapping(metadataType: 'movie' | 'tv', idType: ProviderIdType, mediaId: string): Promise<MediaIds | null> {
+    try {
+      const client = getRedisClient();
+      const stored = await client.get(`${RedisKeys.idMappings}${metadataType}:${idType}:${mediaId}`);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      logger.warn(`Id mapping read failed for ${idType} ${mediaId}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private async writeMapping(metadataType: 'movie' | 'tv', ids: MediaIds): Promise<void> {
+    try {
+      const client = getRedisClient();
+      for (const [idType, id] of Object.entries(ids)) {
+        await client.set(`${RedisKeys.idMappings}${metadataType}:${idType}:${id}`, JSON.stringify(ids));
+      }
+    } catch (error) {
+      logger.warn(`Id mapping write failed for TMDB ${ids.tmdb}:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+export const idMappingService = IdMappingService.getInstance();
+export default idMappingService;
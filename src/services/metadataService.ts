@@ -0,0 +1,248 @@
+import { AxiosInstance } from 'axios';
+import { logger } from '../utils/logger';
+import { RedisKeys } from '../config/redis';
+import { TMDB_API_KEY, TMDB_API_URL, TMDB_IMAGE_BASE_URL, TMDB_CACHE_TTL, HEALTH_CHECK_TIMEOUT } from '../config/environment';
+import { ValidationError, NotFoundError, ExternalServiceError } from '../utils/errorHandler';
+import { MediaMetadata, MediaType } from '../types/index';
+import { circuitBreaker } from './circuitBreakerService';
+import { cacheService } from './cacheService';
+import { proxyPoolService } from './proxyPoolService';
+
+export interface MetadataServiceOptions {
+  httpClient?: AxiosInstance;
+  apiKey?: string;
+}
+
+const TMDB_ID_PATTERN = /^\d+$/;
+
+// Anime is looked up as a TMDB TV show
+export const toMetadataType = (mediaType: MediaType): 'movie' | 'tv' => mediaType === 'movie' ? 'movie' : 'tv';
+
+/**
+ * Resolves TMDB ids into titles, artwork and season/episode structure.
+ * The HTTP client is injectable so tests can point it at a local fixture server.
+ */
+export class MetadataService {
+  private httpClient: AxiosInstance;
+  private apiKey: string;
+
+  constructor(options: MetadataServiceOptions = {}) {
+    this.apiKey = options.apiKey ?? TMDB_API_KEY;
+    this.httpClient = options.httpClient || proxyPoolService.createHttpClient({
+      baseURL: TMDB_API_URL,
+      timeout: HEALTH_CHECK_TIMEOUT
+    });
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async getMetadata(tmdbId: string, mediaType: 'movie' | 'tv'): Promise<MediaMetadata> {
+    if (!TMDB_ID_PATTERN.test(tmdbId)) {
+      throw new ValidationError(`Invalid TMDB id: ${tmdbId}`);
+    }
+
+    const cacheKey = `${RedisKeys.cache}tmdb:${mediaType}:${tmdbId}`;
+    const cached = await cacheService.get<MediaMetadata>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const data = await this.request(`/${mediaType}/${tmdbId}`);
+    const metadata = mediaType === 'movie' ? this.mapMovie(tmdbId, data) : this.mapTv(tmdbId, data);
+
+    await cacheService.set(cacheKey, metadata, {
+      ttl: TMDB_CACHE_TTL,
+      tags: [`media:${mediaType}:${tmdbId}`, 'tmdb']
+    });
+
+    return metadata;
+  }
+
+  /**
+   * Reject episodes that TMDB says don't exist. Skipped when TMDB isn't configured,
+   * the id isn't a TMDB id, or TMDB is unreachable, so metadata outages never block playback.
+   */
+  async validateEpisode(tmdbId: string, season: number, episode: number): Promise<void> {
+    if (!this.isConfigured() || !TMDB_ID_PATTERN.test(tmdbId)) {
+      return;
+    }
+
+    let metadata: MediaMetadata;
+    try {
+      metadata = await this.getMetadata(tmdbId, 'tv');
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      logger.warn(`Skipping episode validation for ${tmdbId}:`, error instanceof Error ? error.message : error);
+      return;
+    }
+
+    const seasonInfo = metadata.seasons?.find(s => s.seasonNumber === season);
+    if (!seasonInfo) {
+      throw new ValidationError(`Season ${season} does not exist for ${metadata.title}`);
+    }
+
+    if (episode > seasonInfo.episodeCount) {
+      throw new ValidationError(`Episode ${episode} does not exist in season ${season} of ${metadata.title} (${seasonInfo.episodeCount} episodes)`);
+    }
+  }
+
+  // Null when TMDB can't be asked (not configured or not a TMDB id)
+  async getSeasonEpisodeCount(tmdbId: string, season: number): Promise<number | null> {
+    if (!this.isConfigured() || !TMDB_ID_PATTERN.test(tmdbId)) {
+      return null;
+    }
+
+    const metadata = await this.getMetadata(tmdbId, 'tv');
+    const seasonInfo = metadata.seasons?.find(s => s.seasonNumber === season);
+    if (!seasonInfo) {
+      throw new NotFoundError(`Season ${season} does not exist for ${metadata.title}`);
+    }
+
+    return seasonInfo.episodeCount;
+  }
+
+  /**
+   * Map a TMDB season/episode to absolute numbering. Specials (season 0) aren't counted.
+   * Season 1 maps directly, so it works without TMDB.
+   */
+  async toAbsoluteEpisode(tmdbId: string, season: number, episode: number): Promise<number> {
+    if (season === 1) {
+      return episode;
+    }
+
+    const seasons = await this.getSeasonsForMapping(tmdbId);
+    const seasonInfo = seasons.find(s => s.seasonNumber === season);
+    if (!seasonInfo || episode > seasonInfo.episodeCount) {
+      throw new ValidationError(`Season ${season} episode ${episode} does not exist for ${tmdbId}`);
+    }
+
+    const previousEpisodes = seasons
+      .filter(s => s.seasonNumber < season)
+      .reduce((sum, s) => sum + s.episodeCount, 0);
+
+    return previousEpisodes + episode;
+  }
+
+  /**
+   * Map an absolute episode number back to its TMDB season/episode
+   */
+  async fromAbsoluteEpisode(tmdbId: string, absoluteEpisode: number): Promise<{ season: number; episode: number }> {
+    const seasons = await this.getSeasonsForMapping(tmdbId);
+
+    let remaining = absoluteEpisode;
+    for (const seasonInfo of [...seasons].sort((a, b) => a.seasonNumber - b.seasonNumber)) {
+      if (remaining <= seasonInfo.episodeCount) {
+        return { season: seasonInfo.seasonNumber, episode: remaining };
+      }
+      remaining -= seasonInfo.episodeCount;
+    }
+
+    throw new ValidationError(`Absolute episode ${absoluteEpisode} does not exist for ${tmdbId}`);
+  }
+
+  /**
+   * TMDB id for an IMDb or TVDB id
+   */
+  async findTmdbId(externalId: string, source: 'imdb' | 'tvdb', mediaType: 'movie' | 'tv'): Promise<string> {
+    const data = await this.request(`/find/${encodeURIComponent(externalId)}`, { external_source: `${source}_id` });
+    const match = (mediaType === 'movie' ? data.movie_results : data.tv_results)?.[0];
+    if (!match?.id) {
+      throw new NotFoundError(`No TMDB ${mediaType} found for ${source} id ${externalId}`);
+    }
+
+    return String(match.id);
+  }
+
+  /**
+   * IMDb and TVDB ids TMDB lists for a title; either may be missing
+   */
+  async getExternalIds(tmdbId: string, mediaType: 'movie' | 'tv'): Promise<{ imdb?: string; tvdb?: string }> {
+    if (!TMDB_ID_PATTERN.test(tmdbId)) {
+      throw new ValidationError(`Invalid TMDB id: ${tmdbId}`);
+    }
+
+    const data = await this.request(`/${mediaType}/${tmdbId}/external_ids`);
+    return {
+      ...(data.imdb_id && { imdb: String(data.imdb_id) }),
+      ...(data.tvdb_id && { tvdb: String(data.tvdb_id) })
+    };
+  }
+
+  private async getSeasonsForMapping(tmdbId: string): Promise<NonNullable<MediaMetadata['seasons']>> {
+    if (!this.isConfigured()) {
+      throw new ExternalServiceError('TMDB metadata is required to map absolute episode numbers', 'tmdb');
+    }
+
+    return (await this.getMetadata(tmdbId, 'tv')).seasons || [];
+  }
+
+  private async request(path: string, params: Record<string, string> = {}): Promise<any> {
+    if (!this.isConfigured()) {
+      throw new ExternalServiceError('TMDB API key not configured', 'tmdb');
+    }
+
+    // 404s are resolved inside the breaker so unknown ids don't trip the circuit
+    const data = await circuitBreaker.execute('tmdb', async () => {
+      try {
+        const response = await this.httpClient.get(path, { params: { ...params, api_key: this.apiKey } });
+        return response.data;
+      } catch (error: any) {
+        if (error?.response?.status === 404) {
+          return null;
+        }
+        throw new ExternalServiceError(`TMDB request failed: ${error?.message || 'Unknown error'}`, 'tmdb');
+      }
+    });
+
+    if (!data) {
+      throw new NotFoundError(`TMDB resource not found: ${path}`);
+    }
+
+    return data;
+  }
+
+  private mapMovie(tmdbId: string, data: any): MediaMetadata {
+    return {
+      tmdbId,
+      mediaType: 'movie',
+      title: data.title || data.original_title || '',
+      year: this.parseYear(data.release_date),
+      posterUrl: data.poster_path ? `${TMDB_IMAGE_BASE_URL}${data.poster_path}` : null,
+      runtime: data.runtime || null
+    };
+  }
+
+  private mapTv(tmdbId: string, data: any): MediaMetadata {
+    // Season 0 holds specials and isn't counted towards the show's seasons
+    const seasons = (data.seasons || [])
+      .filter((season: any) => season.season_number > 0)
+      .map((season: any) => ({
+        seasonNumber: season.season_number,
+        episodeCount: season.episode_count || 0
+      }));
+
+    return {
+      tmdbId,
+      mediaType: 'tv',
+      title: data.name || data.original_name || '',
+      year: this.parseYear(data.first_air_date),
+      posterUrl: data.poster_path ? `${TMDB_IMAGE_BASE_URL}${data.poster_path}` : null,
+      runtime: data.episode_run_time?.[0] || null,
+      seasonCount: data.number_of_seasons ?? seasons.length,
+      episodeCount: data.number_of_episodes ?? seasons.reduce((sum: number, s: any) => sum + s.episodeCount, 0),
+      seasons
+    };
+  }
+
+  private parseYear(date?: string): number | null {
+    if (!date) return null;
+    const year = parseInt(date.substring(0, 4));
+    return isNaN(year) ? null : year;
+  }
+}
+
+export const metadataService = new MetadataService();
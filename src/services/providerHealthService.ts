@@ -0,0 +1,222 @@
+import { AxiosInstance } from 'axios';
+import { logger } from '../utils/logger';
+import { getRedisClient, RedisKeys } from '../config/redis';
+import { HEALTH_CHECK_TIMEOUT, PROVIDER_HEALTH_CHECK_INTERVAL_MS } from '../config/environment';
+import { trackProviderStatus } from '../config/posthog';
+import { providerRegistry } from './providerRegistry';
+import { proxyPoolService } from './proxyPoolService';
+import { ProviderConfig, ProviderHealth, ProviderHealthSample } from '../types/index';
+
+interface HealthProbeConfig {
+  intervalMs: number;          // How often every provider is probed
+  timeoutMs: number;           // Per-probe request timeout
+  degradedLatencyMs: number;   // Successful probes slower than this count as degraded
+  offlineAfterFailures: number; // Consecutive failures before a provider is marked offline
+  historySize: number;         // Samples kept per provider in Redis
+}
+
+/**
+ * Periodically probes every enabled provider and records the results in Redis
+ */
+class ProviderHealthService {
+  private static instance: ProviderHealthService;
+  private config: HealthProbeConfig;
+  private health = new Map<string, ProviderHealth>();
+  private timer: NodeJS.Timeout | null = null;
+  private probing = false;
+  private httpClient: AxiosInstance = proxyPoolService.createHttpClient();
+
+  private constructor() {
+    this.config = {
+      intervalMs: PROVIDER_HEALTH_CHECK_INTERVAL_MS,
+      timeoutMs: HEALTH_CHECK_TIMEOUT,
+      degradedLatencyMs: 2000,
+      offlineAfterFailures: 3,
+      historySize: 100
+    };
+  }
+
+  public static getInstance(): ProviderHealthService {
+    if (!ProviderHealthService.instance) {
+      ProviderHealthService.instance = new ProviderHealthService();
+    }
+    return ProviderHealthService.instance;
+  }
+
+  /**
+   * Start the background prober (runs one probe immediately)
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    await this.loadFromRedis();
+
+    this.timer = setInterval(() => {
+      this.probeAll().catch(error => logger.error('Provider health probe failed:', error));
+    }, this.config.intervalMs);
+
+    this.probeAll().catch(error => logger.error('Initial provider health probe failed:', error));
+    logger.info(`Provider health prober started (every ${this.config.intervalMs}ms)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Provider health prober stopped');
+    }
+  }
+
+  async probeAll(): Promise<void> {
+    // Skip a tick if the previous round is still running
+    if (this.probing) return;
+    this.probing = true;
+
+    try {
+      await Promise.all(providerRegistry.getEnabled().map(provider => this.probeProvider(provider)));
+    } finally {
+      this.probing = false;
+    }
+  }
+
+  async probeProvider(provider: ProviderConfig): Promise<ProviderHealth> {
+    const url = provider.healthCheckUrl || provider.baseUrl;
+    const startTime = Date.now();
+    let success = false;
+    let statusCode: number | undefined;
+    let errorMessage: string | undefined;
+
+    try {
+      let response = await this.httpClient.head(url, {
+        timeout: this.config.timeoutMs,
+        maxRedirects: 3,
+        validateStatus: () => true
+      });
+
+      // Some providers reject HEAD, retry with GET
+      if (response.status === 405 || response.status === 501) {
+        response = await this.httpClient.get(url, {
+          timeout: this.config.timeoutMs,
+          maxRedirects: 3,
+          validateStatus: () => true
+        });
+      }
+
+      statusCode = response.status;
+      success = response.status < 500;
+      if (!success) {
+        errorMessage = `HTTP ${response.status}`;
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    const responseTime = Date.now() - startTime;
+    const previous = this.health.get(provider.id);
+    const consecutiveFailures = success ? 0 : (previous?.metadata?.consecutiveFailures || 0) + 1;
+
+    let status: ProviderHealth['status'] = 'online';
+    if (consecutiveFailures >= this.config.offlineAfterFailures) {
+      status = 'offline';
+    } else if (!success || responseTime > this.config.degradedLatencyMs) {
+      status = 'degraded';
+    }
+
+    const health: ProviderHealth = {
+      name: provider.id,
+      status,
+      responseTime,
+      lastCheck: new Date(),
+      errorCount: (previous?.errorCount || 0) + (success ? 0 : 1),
+      successCount: (previous?.successCount || 0) + (success ? 1 : 0),
+      metadata: {
+        consecutiveFailures,
+        statusCode,
+        lastError: success ? undefined : errorMessage
+      }
+    };
+
+    this.health.set(provider.id, health);
+
+    if (previous?.status !== status) {
+      logger.info(`Provider ${provider.id} is now ${status} (${responseTime}ms)`);
+      await trackProviderStatus(provider.id, status, responseTime);
+    }
+
+    const sample: ProviderHealthSample = {
+      status,
+      success,
+      responseTime,
+      ...(statusCode !== undefined && { statusCode }),
+      ...(errorMessage !== undefined && { error: errorMessage }),
+      checkedAt: health.lastCheck
+    };
+    await this.persist(provider.id, health, sample);
+
+    return health;
+  }
+
+  getHealth(providerId: string): ProviderHealth | undefined {
+    return this.health.get(providerId);
+  }
+
+  getAllHealth(): ProviderHealth[] {
+    return Array.from(this.health.values());
+  }
+
+  isOffline(providerId: string): boolean {
+    return this.health.get(providerId)?.status === 'offline';
+  }
+
+  /**
+   * Most recent probe samples for a provider, newest first
+   */
+  async getHistory(providerId: string, limit: number = 20): Promise<ProviderHealthSample[]> {
+    try {
+      const client = getRedisClient();
+      const result = await client.zrange(`${RedisKeys.providerHealthHistory}${providerId}`, 0, limit - 1, { REV: true });
+      const entries: string[] = result?.result || [];
+
+      return entries.map(entry => {
+        const sample = JSON.parse(entry);
+        return { ...sample, checkedAt: new Date(sample.checkedAt) };
+      });
+    } catch (error) {
+      logger.warn(`Failed to load health history for ${providerId}:`, error);
+      return [];
+    }
+  }
+
+  private async loadFromRedis(): Promise<void> {
+    try {
+      const client = getRedisClient();
+      for (const provider of providerRegistry.getAll()) {
+        const stored = await client.get(`${RedisKeys.providerHealth}${provider.id}`);
+        if (!stored) continue;
+
+        const health = JSON.parse(stored);
+        this.health.set(provider.id, { ...health, lastCheck: new Date(health.lastCheck) });
+      }
+    } catch (error) {
+      logger.warn('Failed to load provider health from Redis:', error);
+    }
+  }
+
+  private async persist(providerId: string, health: ProviderHealth, sample: ProviderHealthSample): Promise<void> {
+    try {
+      const client = getRedisClient();
+      const historyKey = `${RedisKeys.providerHealthHistory}${providerId}`;
+
+      await client.set(`${RedisKeys.providerHealth}${providerId}`, JSON.stringify(health));
+      await client.zadd(historyKey, [{ score: sample.checkedAt.getTime(), value: JSON.stringify(sample) }]);
+
+      // Keep only the newest samples
+      await client.zremrangebyrank(historyKey, 0, -(this.config.historySize + 1));
+    } catch (error) {
+      logger.warn(`Failed to persist health for provider ${providerId}:`, error);
+    }
+  }
+}
+
+export const providerHealthService = ProviderHealthService.getInstance();
+export default providerHealthService;
@@ -0,0 +1,204 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { getRedisClient, RedisKeys } from '../config/redis';
+import { PROVIDER_REGISTRY_SYNC_MS } from '../config/environment';
+import { ValidationError, NotFoundError, ProviderError } from '../utils/errorHandler';
+import { MaintenanceWindow } from '../types/index';
+import { providerRegistry } from './providerRegistry';
+
+/**
+ * Scheduled maintenance windows per provider. Windows live in a Redis hash keyed by id
+ * and are mirrored in memory so availability checks stay synchronous. The mirror is
+ * re-read on the registry's sync interval, so windows changed on other instances apply here too.
+ */
+class ProviderMaintenanceService {
+  private static instance: ProviderMaintenanceService;
+  private windows = new Map<string, MaintenanceWindow>();
+  private syncTimer: NodeJS.Timeout | null = null;
+
+  public static getInstance(): ProviderMaintenanceService {
+    if (!ProviderMaintenanceService.instance) {
+      ProviderMaintenanceService.instance = new ProviderMaintenanceService();
+    }
+    return ProviderMaintenanceService.instance;
+  }
+
+  async loadFromRedis(): Promise<void> {
+    try {
+      await this.applyStoredWindows();
+      logger.info(`Loaded ${this.windows.size} provider maintenance windows from Redis`);
+    } catch (error) {
+      logger.warn('Failed to load provider maintenance windows from Redis:', error);
+    }
+  }
+
+  /**
+   * Keep re-reading stored windows, so windows scheduled or cancelled on other instances are enforced here
+   */
+  startSync(intervalMs: number = PROVIDER_REGISTRY_SYNC_MS): void {
+    if (this.syncTimer) return;
+
+    this.syncTimer = setInterval(() => {
+      this.applyStoredWindows().catch(error => logger.warn('Provider maintenance sync failed:', error));
+    }, intervalMs);
+  }
+
+  stopSync(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  // Redis is the source of truth, so windows missing from the hash were cancelled elsewhere
+  private async applyStoredWindows(): Promise<void> {
+    const client = getRedisClient();
+    const result = await client.hgetall(RedisKeys.providerMaintenance);
+
+    const windows = new Map<string, MaintenanceWindow>();
+    for (const [id, data] of Object.entries(result?.result || {})) {
+      try {
+        windows.set(id, this.deserialize(JSON.parse(data as string)));
+      } catch (error) {
+        logger.warn(`Ignoring invalid maintenance window ${id}:`, error);
+      }
+    }
+
+    this.windows = windows;
+    await this.pruneExpired();
+  }
+
+  async schedule(provider: string, startsAt: Date, endsAt: Date, reason: string): Promise<MaintenanceWindow> {
+    if (!providerRegistry.get(provider)) {
+      throw new NotFoundError(`Provider ${provider} not found`);
+    }
+    if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+      throw new ValidationError('startsAt and endsAt must be valid dates');
+    }
+    if (endsAt <= startsAt) {
+      throw new ValidationError('endsAt must be after startsAt');
+    }
+    if (endsAt.getTime() <= Date.now()) {
+      throw new ValidationError('endsAt must be in the future');
+    }
+
+    const window: MaintenanceWindow = {
+      id: uuidv4(),
+      provider,
+      startsAt,
+      endsAt,
+      reason,
+      createdAt: new Date()
+    };
+
+    this.windows.set(window.id, window);
+
+    try {
+      const client = getRedisClient();
+      await client.hset(RedisKeys.providerMaintenance, window.id, JSON.stringify(window));
+    } catch (error) {
+      logger.warn(`Failed to persist maintenance window ${window.id}:`, error);
+    }
+
+    logger.info(`Maintenance scheduled for ${provider} from ${startsAt.toISOString()} to ${endsAt.toISOString()}: ${reason}`);
+    return window;
+  }
+
+  async cancel(id: string): Promise<void> {
+    const window = this.windows.get(id);
+    if (!window) {
+      throw new NotFoundError(`Maintenance window ${id} not found`);
+    }
+
+    await this.remove(id);
+    logger.info(`Maintenance window ${id} for ${window.provider} cancelled`);
+  }
+
+  /**
+   * Upcoming and active windows, soonest first
+   */
+  list(provider?: string): MaintenanceWindow[] {
+    const now = Date.now();
+    return Array.from(this.windows.values())
+      .filter(window => window.endsAt.getTime() > now && (!provider || window.provider === provider))
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  /**
+   * The window a provider is currently in, if any. Overlapping windows report the one ending last.
+   */
+  getActiveWindow(provider: string, at: Date = new Date()): MaintenanceWindow | undefined {
+    const time = at.getTime();
+    let active: MaintenanceWindow | undefined;
+
+    for (const window of this.windows.values()) {
+      if (window.provider !== provider) continue;
+      if (window.startsAt.getTime() > time || window.endsAt.getTime() <= time) continue;
+      if (!active || window.endsAt > active.endsAt) {
+        active = window;
+      }
+    }
+
+    return active;
+  }
+
+  isUnderMaintenance(provider: string): boolean {
+    return this.getActiveWindow(provider) !== undefined;
+  }
+
+  /**
+   * Throw a ProviderError (503) describing the window and when the provider is expected back
+   */
+  assertAvailable(provider: string): void {
+    const window = this.getActiveWindow(provider);
+    if (!window) return;
+
+    const error = new ProviderError(
+      `Provider ${provider} is under maintenance until ${window.endsAt.toISOString()}: ${window.reason}`,
+      provider
+    );
+    error.statusCode = 503;
+    error.details = {
+      provider,
+      maintenance: {
+        id: window.id,
+        reason: window.reason,
+        startsAt: window.startsAt,
+        expectedReturn: window.endsAt
+      }
+    };
+    throw error;
+  }
+
+  private async pruneExpired(): Promise<void> {
+    const now = Date.now();
+    for (const window of Array.from(this.windows.values())) {
+      if (window.endsAt.getTime() <= now) {
+        await this.remove(window.id);
+      }
+    }
+  }
+
+  private async remove(id: string): Promise<void> {
+    this.windows.delete(id);
+
+    try {
+      const client = getRedisClient();
+      await client.hdel(RedisKeys.providerMaintenance, id);
+    } catch (error) {
+      logger.warn(`Failed to remove maintenance window ${id} from Redis:`, error);
+    }
+  }
+
+  private deserialize(stored: any): MaintenanceWindow {
+    return {
+      ...stored,
+      startsAt: new Date(stored.startsAt),
+      endsAt: new Date(stored.endsAt),
+      createdAt: new Date(stored.createdAt)
+    };
+  }
+}
+
+export const providerMaintenanceService = ProviderMaintenanceService.getInstance();
+export default providerMaintenanceService;
@@ -0,0 +1,663 @@
+import { createHash } from 'crypto';
+import { logger } from '../utils/logger';
+import { getRedisClient, RedisKeys } from '../config/redis';
+import { loadProviderConfigFile } from '../config/providers';
+import { PROVIDER_REGISTRY_SYNC_MS } from '../config/environment';
+import {
+  ProviderConfig,
+  PlayerOptions,
+  PlayerOptionName,
+  AvailabilityContext,
+  ProviderUnavailableReason,
+  RoutingPolicy,
+  RoutingDecision,
+  RoutingStrategy,
+  MediaType,
+  AnimeVariant,
+  ProviderIdType,
+  ProviderUrlTemplate
+} from '../types/index';
+import { ValidationError, NotFoundError, ConflictError, ProviderError } from '../utils/errorHandler';
+
+export type ProviderConfigUpdate = Partial<Omit<ProviderConfig, 'id'>>;
+
+const PROVIDER_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+// Static segments under /providers that would shadow /providers/:provider/:id
+const RESERVED_PROVIDER_IDS = ['admin', 'auto', 'cache', 'embeds', 'health', 'list', 'maintenance', 'metadata', 'proxies', 'redirect', 'routing', 'stats'];
+const BASE_URL_PATTERN = /^https?:\/\/[^\s]+$/;
+const QUERY_PARAM_PATTERN = /^[a-zA-Z0-9_.-]+$/;
+const UNSAFE_ATTRIBUTE_PATTERN = /["<>]/;
+const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+const MEDIA_TYPES: MediaType[] = ['movie', 'tv', 'anime'];
+const ANIME_VARIANTS: AnimeVariant[] = ['sub', 'dub'];
+
+export const PLAYER_OPTION_NAMES: PlayerOptionName[] = ['autoplay', 'startTime', 'subtitleLang', 'themeColor'];
+const IFRAME_ATTRIBUTE_NAMES = ['sandbox', 'allow'];
+const ROUTING_STRATEGIES: RoutingStrategy[] = ['weighted', 'sticky', 'canary'];
+
+const URL_PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+export const ID_TYPE_PATTERNS: Record<ProviderIdType, RegExp> = {
+  tmdb: /^\d+$/,
+  imdb: /^tt\d+$/,
+  tvdb: /^\d+$/
+};
+
+// Used for media types a provider doesn't declare a template for
+const DEFAULT_URL_TEMPLATES: Record<MediaType, ProviderUrlTemplate> = {
+  movie: { path: '/movie/{mediaId}' },
+  tv: { path: '/tv/{mediaId}/{season}/{episode}' },
+  anime: { path: '/anime/{mediaId}/{episode}/{variant}' }
+};
+
+// Anime embeds take the absolute episode number, so their templates have no {season}
+const URL_PLACEHOLDERS: Record<MediaType, { required: string[]; allowed: string[] }> = {
+  movie: { required: ['mediaId'], allowed: ['mediaId'] },
+  tv: { required: ['mediaId', 'season', 'episode'], allowed: ['mediaId', 'season', 'episode'] },
+  anime: { required: ['mediaId', 'episode'], allowed: ['mediaId', 'episode', 'variant'] }
+};
+
+/**
+ * Single source of truth for streaming providers.
+ * Providers are seeded from the config file and overridden by entries stored in Redis,
+ * so admin changes survive restarts without a redeploy. Every instance re-reads Redis
+ * every PROVIDER_REGISTRY_SYNC_MS, so a change made through one reaches the others.
+ */
+class ProviderRegistry {
+  private static instance: ProviderRegistry;
+  private providers: Map<string, ProviderConfig> = new Map();
+  private routingPolicy: RoutingPolicy | null = null;
+  private syncTimer: NodeJS.Timeout | null = null;
+
+  private constructor() {
+    for (const config of loadProviderConfigFile()) {
+      try {
+        this.validateConfig(config);
+        this.providers.set(config.id, config);
+      } catch (error) {
+        logger.error(`Skipping invalid provider config ${config?.id}:`, error);
+      }
+    }
+
+    logger.info(`Provider registry initialized with ${this.providers.size} providers`);
+  }
+
+  public static getInstance(): ProviderRegistry {
+    if (!ProviderRegistry.instance) {
+      ProviderRegistry.instance = new ProviderRegistry();
+    }
+    return ProviderRegistry.instance;
+  }
+
+  /**
+   * Apply provider overrides stored in Redis on top of the file config, then the routing policy
+   */
+  async loadFromRedis(): Promise<void> {
+    try {
+      await this.applyStoredProviders();
+      logger.info(`Provider registry synced from Redis (${this.providers.size} providers)`);
+    } catch (error) {
+      logger.warn('Failed to load providers from Redis, using config file only:', error);
+    }
+
+    await this.loadRoutingPolicy();
+    if (this.routingPolicy) {
+      logger.info(`Provider routing policy loaded (${this.routingPolicy.strategy})`);
+    }
+  }
+
+  /**
+   * Keep re-reading stored providers and the routing policy, so changes made on other instances show up here
+   */
+  startSync(intervalMs: number = PROVIDER_REGISTRY_SYNC_MS): void {
+    if (this.syncTimer) return;
+
+    this.syncTimer = setInterval(() => {
+      this.applyStoredProviders()
+        .then(() => this.loadRoutingPolicy())
+        .catch(error => logger.warn('Provider registry sync failed:', error));
+    }, intervalMs);
+
+    logger.info(`Provider registry sync started (every ${intervalMs}ms)`);
+  }
+
+  stopSync(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  private async applyStoredProviders(): Promise<void> {
+    const client = getRedisClient();
+    const result = await client.hgetall(RedisKeys.providerRegistry);
+
+    for (const [id, data] of Object.entries(result?.result || {})) {
+      try {
+        const stored = JSON.parse(data as string);
+        if (stored.removed) {
+          this.providers.delete(id);
+          continue;
+        }
+
+        this.validateConfig(stored);
+        this.providers.set(id, stored);
+      } catch (error) {
+        logger.warn(`Ignoring invalid stored provider ${id}:`, error);
+      }
+    }
+  }
+
+  private async loadRoutingPolicy(): Promise<void> {
+    try {
+      const client = getRedisClient();
+      const stored = await client.get(RedisKeys.providerRouting);
+      if (!stored) {
+        // Cleared on another instance
+        this.routingPolicy = null;
+        return;
+      }
+
+      const policy = JSON.parse(stored);
+      this.validateRoutingPolicy(policy);
+      this.routingPolicy = policy;
+    } catch (error) {
+      logger.warn('Ignoring stored provider routing policy:', error);
+    }
+  }
+
+  get(id: string): ProviderConfig | undefined {
+    return this.providers.get(id);
+  }
+
+  getAll(): ProviderConfig[] {
+    return Array.from(this.providers.values());
+  }
+
+  getEnabled(): ProviderConfig[] {
+    return this.getAll().filter(provider => provider.enabled);
+  }
+
+  async addProvider(config: ProviderConfig): Promise<ProviderConfig> {
+    if (this.providers.has(config.id)) {
+      throw new ConflictError(`Provider ${config.id} already exists`);
+    }
+
+    this.validateConfig(config);
+    this.providers.set(config.id, config);
+    await this.persist(config);
+
+    logger.info(`Provider ${config.id} added to registry`);
+    return config;
+  }
+
+  async updateProvider(id: string, updates: ProviderConfigUpdate): Promise<ProviderConfig> {
+    const existing = this.providers.get(id);
+    if (!existing) {
+      throw new NotFoundError(`Provider ${id} not found`);
+    }
+
+    const updated: ProviderConfig = { ...existing, ...updates, id };
+    this.validateConfig(updated);
+    this.providers.set(id, updated);
+    await this.persist(updated);
+
+    logger.info(`Provider ${id} updated`);
+    return updated;
+  }
+
+  async setProviderEnabled(id: string, enabled: boolean): Promise<ProviderConfig> {
+    return this.updateProvider(id, { enabled });
+  }
+
+  async removeProvider(id: string): Promise<void> {
+    if (!this.providers.has(id)) {
+      throw new NotFoundError(`Provider ${id} not found`);
+    }
+
+    this.providers.delete(id);
+
+    // Keep a tombstone so providers from the config file stay removed after a restart
+    try {
+      const client = getRedisClient();
+      await client.hset(RedisKeys.providerRegistry, id, JSON.stringify({ id, removed: true }));
+    } catch (error) {
+      logger.warn(`Failed to persist removal of provider ${id}:`, error);
+    }
+
+    logger.info(`Provider ${id} removed from registry`);
+  }
+
+  getRoutingPolicy(): RoutingPolicy | null {
+    return this.routingPolicy;
+  }
+
+  async setRoutingPolicy(policy: RoutingPolicy): Promise<RoutingPolicy> {
+    this.validateRoutingPolicy(policy);
+    this.routingPolicy = policy;
+
+    try {
+      const client = getRedisClient();
+      await client.set(RedisKeys.providerRouting, JSON.stringify(policy));
+    } catch (error) {
+      logger.warn('Failed to persist provider routing policy:', error);
+    }
+
+    logger.info(`Provider routing policy set to ${policy.strategy}`);
+    return policy;
+  }
+
+  async clearRoutingPolicy(): Promise<void> {
+    this.routingPolicy = null;
+
+    try {
+      const client = getRedisClient();
+      await client.del(RedisKeys.providerRouting);
+    } catch (error) {
+      logger.warn('Failed to remove provider routing policy from Redis:', error);
+    }
+
+    logger.info('Provider routing policy cleared');
+  }
+
+  /**
+   * Pick the provider the routing policy sends this caller to, or null when no policy is set.
+   * Weighted routing rolls per request; sticky and canary routing hash the caller so they keep
+   * landing on the same provider (random when the caller is unknown).
+   */
+  route(callerId?: string): RoutingDecision | null {
+    const policy = this.routingPolicy;
+    if (!policy) {
+      return null;
+    }
+
+    if (policy.strategy === 'canary') {
+      const canary = policy.canary!;
+      const roll = callerId ? this.hashToUnit(`${canary.provider}:${callerId}`) : Math.random();
+      const inCanary = roll * 100 < canary.percentage;
+      return {
+        strategy: 'canary',
+        provider: inCanary ? canary.provider : null,
+        cohort: inCanary ? 'canary' : 'control'
+      };
+    }
+
+    const roll = policy.strategy === 'sticky' && callerId ? this.hashToUnit(callerId) : Math.random();
+    return { strategy: policy.strategy, provider: this.pickWeighted(policy.weights!, roll) };
+  }
+
+  /**
+   * Build the embed URL for a provider. Used by both the embed route and watch-together rooms.
+   */
+  buildEmbedUrl(id: string, mediaId: string, mediaType: MediaType = 'movie', season?: number, episode?: number, animeVariant: AnimeVariant = 'sub'): string {
+    const providerConfig = this.providers.get(id);
+    if (!providerConfig) {
+      throw new NotFoundError(`Provider ${id} not found`);
+    }
+
+    if (!providerConfig.enabled) {
+      throw new ProviderError(`Provider ${id} is disabled`, id);
+    }
+
+    this.validateMediaRequest(mediaType, season, episode);
+    this.assertAvailable(id, { mediaType, mediaId, animeVariant });
+
+    // Anime embeds take the absolute episode number; TMDB season/episode is mapped before this point
+    const template = providerConfig.urlTemplates?.[mediaType] || DEFAULT_URL_TEMPLATES[mediaType];
+    const values: Record<string, string> = {
+      mediaId: encodeURIComponent(mediaId),
+      season: season !== undefined ? String(season - 1 + (template.seasonBase ?? 1)) : '',
+      episode: episode !== undefined ? String(episode) : '',
+      variant: animeVariant
+    };
+
+    const path = template.path.replace(URL_PLACEHOLDER_PATTERN, (_, name: string) => values[name] ?? '');
+    return BASE_URL_PATTERN.test(path) ? path : `${providerConfig.baseUrl}${path}`;
+  }
+
+  /**
+   * Map player options onto the provider's query string. Options the provider
+   * doesn't declare in playerParams are returned as unsupported instead of being dropped.
+   */
+  applyPlayerOptions(id: string, embedUrl: string, options: PlayerOptions): { embedUrl: string; unsupported: PlayerOptionName[] } {
+    const providerConfig = this.providers.get(id);
+    if (!providerConfig) {
+      throw new NotFoundError(`Provider ${id} not found`);
+    }
+
+    const unsupported: PlayerOptionName[] = [];
+    const params: Array<[string, string]> = [];
+
+    for (const name of PLAYER_OPTION_NAMES) {
+      const value = options[name];
+      if (value === undefined) continue;
+
+      const param = providerConfig.playerParams?.[name];
+      if (!param) {
+        unsupported.push(name);
+        continue;
+      }
+
+      params.push([param, this.formatPlayerOption(name, value)]);
+    }
+
+    if (params.length === 0) {
+      return { embedUrl, unsupported };
+    }
+
+    const url = new URL(embedUrl);
+    for (const [param, value] of params) {
+      url.searchParams.set(param, value);
+    }
+
+    return { embedUrl: url.toString(), unsupported };
+  }
+
+  /**
+   * Render the provider's iframe template for an embed URL
+   */
+  renderIframe(id: string, embedUrl: string): string {
+    const providerConfig = this.providers.get(id);
+    if (!providerConfig) {
+      throw new NotFoundError(`Provider ${id} not found`);
+    }
+
+    const attributes = Object.entries(providerConfig.iframeAttributes || {})
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => ` ${name}="${value}"`)
+      .join('');
+
+    return providerConfig.iframeTemplate
+      .replace('{embedUrl}', embedUrl)
+      .replace('{attributes}', attributes);
+  }
+
+  /**
+   * Evaluate a provider's anime support and availability rules and return why it can't serve the request,
+   * or null if it can. Country rules are only applied when the caller's country is known.
+   */
+  getUnavailableReason(id: string, context: AvailabilityContext): ProviderUnavailableReason | null {
+    const providerConfig = this.providers.get(id);
+    const { country, mediaType, mediaId, animeVariant } = context;
+
+    if (mediaType === 'anime') {
+      if (!providerConfig?.animeVariants?.length) {
+        return 'media_type_unsupported';
+      }
+      if (animeVariant && !providerConfig.animeVariants.includes(animeVariant)) {
+        return 'variant_unsupported';
+      }
+    }
+
+    const idType = mediaType && providerConfig?.urlTemplates?.[mediaType]?.idType;
+    if (mediaId && idType && !ID_TYPE_PATTERNS[idType].test(mediaId)) {
+      return 'id_type_unsupported';
+    }
+
+    const availability = providerConfig?.availability;
+    if (!availability) {
+      return null;
+    }
+
+    if (country) {
+      if (availability.allowedCountries && !availability.allowedCountries.includes(country)) {
+        return 'region_blocked';
+      }
+      if (availability.blockedCountries?.includes(country)) {
+        return 'region_blocked';
+      }
+    }
+
+    if (mediaType && availability.mediaTypes && !availability.mediaTypes.includes(mediaType)) {
+      return 'media_type_unsupported';
+    }
+
+    if (mediaId && availability.excludedMediaIds?.includes(mediaId)) {
+      return 'media_excluded';
+    }
+
+    return null;
+  }
+
+  /**
+   * Throw a ProviderError (403) when the provider's availability rules exclude the request
+   */
+  assertAvailable(id: string, context: AvailabilityContext): void {
+    const reason = this.getUnavailableReason(id, context);
+    if (!reason) return;
+
+    const messages: Record<ProviderUnavailableReason, string> = {
+      region_blocked: `Provider ${id} is not available in ${context.country}`,
+      media_type_unsupported: `Provider ${id} does not serve ${context.mediaType} content`,
+      variant_unsupported: `Provider ${id} does not serve ${context.animeVariant} anime`,
+      media_excluded: `Provider ${id} does not serve ${context.mediaType} ${context.mediaId}`,
+      id_type_unsupported: `Provider ${id} requires ${this.providers.get(id)?.urlTemplates?.[context.mediaType!]?.idType} ids for ${context.mediaType} content`
+    };
+
+    const error = new ProviderError(messages[reason], id);
+    error.statusCode = 403;
+    error.details = { provider: id, reason, ...(context.country && { country: context.country }) };
+    throw error;
+  }
+
+  /**
+   * Check media type and season/episode independently of any provider
+   */
+  validateMediaRequest(mediaType: string, season?: number, episode?: number): void {
+    if (mediaType === 'movie') {
+      return;
+    }
+
+    if (mediaType === 'tv') {
+      if (!season || !episode) {
+        throw new ValidationError('Season and episode are required for TV shows');
+      }
+      if (season < 1 || episode < 1) {
+        throw new ValidationError('Season and episode must be positive numbers');
+      }
+      return;
+    }
+
+    // Anime takes an absolute episode, or a TMDB season/episode pair to be mapped
+    if (mediaType === 'anime') {
+      if (!episode || episode < 1) {
+        throw new ValidationError('A positive episode number is required for anime');
+      }
+      if (season !== undefined && season < 1) {
+        throw new ValidationError('Season must be a positive number');
+      }
+      return;
+    }
+
+    throw new ValidationError(`Invalid media type: ${mediaType}. Must be 'movie', 'tv' or 'anime'`);
+  }
+
+  private validateConfig(config: ProviderConfig): void {
+    if (!config || typeof config !== 'object') {
+      throw new ValidationError('Provider config must be an object');
+    }
+    if (!config.id || !PROVIDER_ID_PATTERN.test(config.id)) {
+      throw new ValidationError(`Invalid provider id: ${config.id}`);
+    }
+    if (RESERVED_PROVIDER_IDS.includes(config.id.toLowerCase())) {
+      throw new ValidationError(`Provider id ${config.id} is reserved by a provider route`);
+    }
+    if (!config.name || typeof config.name !== 'string') {
+      throw new ValidationError(`Provider ${config.id} requires a name`);
+    }
+    if (!config.baseUrl || !BASE_URL_PATTERN.test(config.baseUrl)) {
+      throw new ValidationError(`Provider ${config.id} has an invalid baseUrl`);
+    }
+    if (typeof config.enabled !== 'boolean') {
+      throw new ValidationError(`Provider ${config.id} requires an enabled flag`);
+    }
+    if (!config.iframeTemplate || !config.iframeTemplate.includes('{embedUrl}')) {
+      throw new ValidationError(`Provider ${config.id} iframeTemplate must contain {embedUrl}`);
+    }
+    if (config.subtitleUrl !== undefined && (!BASE_URL_PATTERN.test(config.subtitleUrl) || !config.subtitleUrl.includes('{mediaId}'))) {
+      throw new ValidationError(`Provider ${config.id} subtitleUrl must be an http(s) URL containing {mediaId}`);
+    }
+    if (config.rateLimit && (config.rateLimit.requests < 1 || config.rateLimit.windowMs < 1000)) {
+      throw new ValidationError(`Provider ${config.id} has an invalid rateLimit`);
+    }
+
+    for (const [name, value] of Object.entries(config.iframeAttributes || {})) {
+      if (!IFRAME_ATTRIBUTE_NAMES.includes(name) || typeof value !== 'string' || UNSAFE_ATTRIBUTE_PATTERN.test(value)) {
+        throw new ValidationError(`Provider ${config.id} has an invalid iframe attribute: ${name}`);
+      }
+    }
+
+    this.validateAvailability(config);
+    this.validateUrlTemplates(config);
+
+    if (config.animeVariants !== undefined && (
+      !Array.isArray(config.animeVariants) ||
+      config.animeVariants.length === 0 ||
+      !config.animeVariants.every(variant => ANIME_VARIANTS.includes(variant))
+    )) {
+      throw new ValidationError(`Provider ${config.id} animeVariants must list sub and/or dub`);
+    }
+
+    for (const [name, param] of Object.entries(config.playerParams || {})) {
+      if (!PLAYER_OPTION_NAMES.includes(name as PlayerOptionName)) {
+        throw new ValidationError(`Provider ${config.id} declares unknown player option: ${name}`);
+      }
+      if (typeof param !== 'string' || !QUERY_PARAM_PATTERN.test(param)) {
+        throw new ValidationError(`Provider ${config.id} has an invalid query parameter for ${name}`);
+      }
+    }
+  }
+
+  private validateUrlTemplates(config: ProviderConfig): void {
+    for (const [mediaType, template] of Object.entries(config.urlTemplates || {})) {
+      const placeholders = URL_PLACEHOLDERS[mediaType as MediaType];
+      if (!placeholders) {
+        throw new ValidationError(`Provider ${config.id} has a URL template for unknown media type: ${mediaType}`);
+      }
+
+      const path = template?.path;
+      if (typeof path !== 'string' || /\s/.test(path) || !(path.startsWith('/') || path.startsWith('?') || BASE_URL_PATTERN.test(path))) {
+        throw new ValidationError(`Provider ${config.id} ${mediaType} URL template must be a path, query string or http(s) URL`);
+      }
+
+      const used = (path.match(URL_PLACEHOLDER_PATTERN) || []).map(placeholder => placeholder.slice(1, -1));
+      const unsupported = used.find(name => !placeholders.allowed.includes(name));
+      if (unsupported) {
+        throw new ValidationError(`Provider ${config.id} ${mediaType} URL template has an unsupported placeholder: {${unsupported}}`);
+      }
+      const missing = placeholders.required.find(name => !used.includes(name));
+      if (missing) {
+        throw new ValidationError(`Provider ${config.id} ${mediaType} URL template must contain {${missing}}`);
+      }
+
+      if (template.idType !== undefined && !(template.idType in ID_TYPE_PATTERNS)) {
+        throw new ValidationError(`Provider ${config.id} ${mediaType} URL template idType must be one of: ${Object.keys(ID_TYPE_PATTERNS).join(', ')}`);
+      }
+      if (template.seasonBase !== undefined && template.seasonBase !== 0 && template.seasonBase !== 1) {
+        throw new ValidationError(`Provider ${config.id} ${mediaType} URL template seasonBase must be 0 or 1`);
+      }
+      if (mediaType === 'anime' && !config.animeVariants?.length) {
+        throw new ValidationError(`Provider ${config.id} anime URL template requires animeVariants`);
+      }
+    }
+  }
+
+  private validateRoutingPolicy(policy: RoutingPolicy): void {
+    if (!policy || !ROUTING_STRATEGIES.includes(policy.strategy)) {
+      throw new ValidationError(`Routing strategy must be one of: ${ROUTING_STRATEGIES.join(', ')}`);
+    }
+
+    if (policy.strategy === 'canary') {
+      if (!policy.canary || !this.providers.has(policy.canary.provider)) {
+        throw new ValidationError('Canary routing requires a registered canary provider');
+      }
+      if (typeof policy.canary.percentage !== 'number' || policy.canary.percentage < 0 || policy.canary.percentage > 100) {
+        throw new ValidationError('Canary percentage must be between 0 and 100');
+      }
+      return;
+    }
+
+    const weights = Object.entries(policy.weights || {});
+    if (weights.length === 0) {
+      throw new ValidationError(`${policy.strategy} routing requires provider weights`);
+    }
+    for (const [provider, weight] of weights) {
+      if (!this.providers.has(provider)) {
+        throw new ValidationError(`Routing weight set for unknown provider: ${provider}`);
+      }
+      if (typeof weight !== 'number' || weight < 0) {
+        throw new ValidationError(`Routing weight for ${provider} must be a non-negative number`);
+      }
+    }
+    if (!weights.some(([, weight]) => weight > 0)) {
+      throw new ValidationError('At least one routing weight must be positive');
+    }
+  }
+
+  // Walk the cumulative weights with a roll in [0, 1); providers are sorted so the split is stable across restarts
+  private pickWeighted(weights: Record<string, number>, roll: number): string {
+    const entries = Object.entries(weights).filter(([, weight]) => weight > 0).sort(([a], [b]) => a.localeCompare(b));
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+
+    let threshold = roll * total;
+    for (const [provider, weight] of entries) {
+      threshold -= weight;
+      if (threshold < 0) {
+        return provider;
+      }
+    }
+
+    return entries[entries.length - 1]![0];
+  }
+
+  private hashToUnit(value: string): number {
+    return createHash('sha256').update(value).digest().readUInt32BE(0) / 0x100000000;
+  }
+
+  private validateAvailability(config: ProviderConfig): void {
+    const availability = config.availability;
+    if (availability === undefined) return;
+
+    if (!availability || typeof availability !== 'object') {
+      throw new ValidationError(`Provider ${config.id} availability must be an object`);
+    }
+
+    for (const field of ['allowedCountries', 'blockedCountries'] as const) {
+      const countries = availability[field];
+      if (countries !== undefined && (!Array.isArray(countries) || !countries.every(code => COUNTRY_CODE_PATTERN.test(code)))) {
+        throw new ValidationError(`Provider ${config.id} ${field} must be uppercase ISO country codes`);
+      }
+    }
+
+    const mediaTypes = availability.mediaTypes;
+    if (mediaTypes !== undefined && (!Array.isArray(mediaTypes) || !mediaTypes.every(type => MEDIA_TYPES.includes(type)))) {
+      throw new ValidationError(`Provider ${config.id} has invalid availability media types`);
+    }
+
+    const excluded = availability.excludedMediaIds;
+    if (excluded !== undefined && (!Array.isArray(excluded) || !excluded.every(id => typeof id === 'string'))) {
+      throw new ValidationError(`Provider ${config.id} excludedMediaIds must be strings`);
+    }
+  }
+
+  private formatPlayerOption(name: PlayerOptionName, value: boolean | number | string): string {
+    if (name === 'autoplay') {
+      return value ? '1' : '0';
+    }
+    if (name === 'themeColor') {
+      return String(value).replace(/^#/, '');
+    }
+    return String(value);
+  }
+
+  private async persist(config: ProviderConfig): Promise<void> {
+    try {
+      const client = getRedisClient();
+      await client.hset(RedisKeys.providerRegistry, config.id, JSON.stringify(config));
+    } catch (error) {
+      logger.warn(`Failed to persist provider ${config.id} to Redis:`, error);
+    }
+  }
+}
+
+export const providerRegistry = ProviderRegistry.getInstance();
+export default providerRegistry;
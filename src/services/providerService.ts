@@ -1,40 +1,104 @@
-import { createSafeErrorResponse, logErrorWithDetails, ValidationError, NotFoundError, ProviderError, ExternalServiceError } from '../utils/errorHandler';
+import { createSafeErrorResponse, logErrorWithDetails, ValidationError, NotFoundError, ProviderError, RateLimitError } from '../utils/errorHandler';
 import { logger } from '../utils/logger';
 import { getRedisClient, RedisKeys } from '../config/redis';
-import { TMDB_API_KEY, TMDB_API_URL, VIDNEST_BASE_URL } from '../config/environment';
+import { PROVIDER_FALLBACK_ORDER, PROVIDER_CACHE_TTL, EMBED_BATCH_MAX_ITEMS } from '../config/environment';
 import * as Sentry from '@sentry/node';
-import { trackProviderRequest, trackProviderStatus, trackError } from '../config/posthog';
+import { trackProviderRequest, trackProviderStatus, trackError, trackCacheHit } from '../config/posthog';
+import { providerRegistry } from './providerRegistry';
+import { providerHealthService } from './providerHealthService';
+import { circuitBreaker } from './circuitBreakerService';
+import { cacheService } from './cacheService';
+import { metadataService } from './metadataService';
+import { embedSigningService } from './embedSigningService';
+import { providerStatsService } from './providerStatsService';
+import { providerMaintenanceService } from './providerMaintenanceService';
+import { embedVerificationService } from './embedVerificationService';
+import { idMappingService } from './idMappingService';
+import { ProviderConfig, ProviderEmbedData, PlayerOptions, AvailabilityContext, RoutingDecision, MediaType, AnimeVariant, ProviderIdType } from '../types/index';
+
+export type { ProviderConfig, ProviderEmbedData, PlayerOptions };
+
+// Upper bound on episodes resolved in a single season request
+export const MAX_SEASON_EPISODES = 100;
+
+// KEYS[1] = window set; ARGV = now, windowMs, limit, member. Returns { allowed, count, oldest score or '' }
+const RESERVE_RATE_LIMIT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], 0, now - windowMs)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < tonumber(ARGV[3]) then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  redis.call('PEXPIRE', KEYS[1], windowMs)
+  count = count + 1
+  allowed = 1
+end
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return { allowed, count, oldest[2] or '' }
+`;
+
+export interface SeasonEmbedData {
+  provider: string;
+  mediaId: string;
+  season: number;
+  episodes: Array<{
+    episode: number;
+    embedUrl: string;
+    iframeCode: string;
+  }>;
+}
 
-export interface ProviderEmbedData {
+export interface FailoverEmbedData extends ProviderEmbedData {
+  reason: string;
+  skipped: Array<{
+    provider: string;
+    reason: string;
+  }>;
+  routing?: RoutingDecision;
+}
+
+export interface BatchEmbedItem {
   provider: string;
-  embedUrl: string;
-  iframeCode: string;
+  mediaId: string;
+  mediaType?: MediaType;
+  season?: number;
+  episode?: number;
+  animeVariant?: AnimeVariant;
+  idType?: ProviderIdType;
 }
 
-export interface ProviderConfig {
-  id: string;
-  name: string;
-  baseUrl: string;
-  enabled: boolean;
-  iframeTemplate: string;
-  healthCheckUrl?: string;
-  rateLimit?: {
-    requests: number;
-    windowMs: number;
+export interface BatchEmbedResult {
+  index: number;
+  provider: string;
+  mediaId: string;
+  success: boolean;
+  data?: ProviderEmbedData;
+  error?: {
+    statusCode: number;
+    error: string;
+    message: string;
   };
 }
 
+export interface RateLimitStatus {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number; // Unix ms
+  reservation?: string; // Slot held for an allowed request
+}
+
+export interface SignedEmbedData extends ProviderEmbedData {
+  signedUrl: string;
+  expiresAt: number;
+}
+
 export class ProviderService {
-  private providers: Map<string, ProviderConfig> = new Map();
   private redisClient: any = null;
   private redisInitialized = false;
   private initializingPromise: Promise<void> | null = null;
 
-  constructor() {
-    // Initialize providers first
-    this.initializeProviders();
-  }
-
   private async ensureRedisClient(): Promise<any> {
     // If already initialized, return the client
     if (this.redisInitialized) {
@@ -65,7 +129,7 @@ export class ProviderService {
         }, 5000); // 5 second timeout
 
         // Try to initialize Redis
-        this.redisClient = await this.initializeRedisInternal();
+        await this.initializeRedisInternal();
         clearTimeout(timeoutId);
         this.redisInitialized = true;
         resolve();
@@ -98,29 +162,11 @@ export class ProviderService {
     }
   }
 
-  private initializeProviders() {
-    // Initialize with vidnest provider only
-    this.providers.set('vidnest', {
-      id: 'vidnest',
-      name: 'Vidnest',
-      baseUrl: VIDNEST_BASE_URL,
-      enabled: true,
-      iframeTemplate: '<iframe src="{embedUrl}" frameBorder="0" scrolling="no" allowFullScreen></iframe>',
-      healthCheckUrl: VIDNEST_BASE_URL,
-      rateLimit: {
-        requests: 100,
-        windowMs: 60000 // 1 minute
-      },
-    });
-
-    logger.info('Provider service initialized with vidnest provider');
-  }
-
-  async getProviderEmbedUrl(provider: string, mediaId: string, mediaType: 'movie' | 'tv' = 'movie', season?: number, episode?: number): Promise<ProviderEmbedData> {
+  async getProviderEmbedUrl(provider: string, mediaId: string, mediaType: MediaType = 'movie', season?: number, episode?: number, options: PlayerOptions = {}, country?: string, verify: boolean = false, animeVariant: AnimeVariant = 'sub', idType?: ProviderIdType): Promise<ProviderEmbedData> {
     const startTime = Date.now();
 
     try {
-      const providerConfig = this.providers.get(provider);
+      const providerConfig = providerRegistry.get(provider);
       if (!providerConfig) {
         throw new NotFoundError(`Provider ${provider} not found`);
       }
@@ -129,45 +175,79 @@ export class ProviderService {
         throw new ProviderError(`Provider ${provider} is disabled`, provider);
       }
 
+      providerMaintenanceService.assertAvailable(provider);
+
       // Validate mediaId
       if (!mediaId || mediaId.trim() === '') {
         throw new ValidationError('Media ID is required');
       }
 
-      let embedUrl: string;
+      mediaId = await idMappingService.normalize(mediaId, mediaType, idType);
+      const providerMediaId = await idMappingService.toProviderId(provider, mediaId, mediaType);
+      providerRegistry.assertAvailable(provider, { country, mediaType, mediaId: providerMediaId, animeVariant });
 
-      if (mediaType === 'movie') {
-        embedUrl = `${providerConfig.baseUrl}/movie/${mediaId}`;
-      } else if (mediaType === 'tv') {
-        if (!season || !episode) {
-          throw new ValidationError('Season and episode are required for TV shows');
-        }
-        if (season < 1 || episode < 1) {
-          throw new ValidationError('Season and episode must be positive numbers');
+      if (mediaType === 'anime') {
+        episode = await this.resolveAbsoluteEpisode(mediaId, season, episode);
+        season = undefined;
+      }
+
+      const cacheKey = this.getEmbedCacheKey(provider, mediaId, mediaType, season, episode, animeVariant);
+      const cached = await cacheService.get<ProviderEmbedData>(cacheKey);
+      await trackCacheHit('provider_embed', cacheKey, !!cached);
+
+      if (cached) {
+        if (verify) {
+          await embedVerificationService.assertAvailable(provider, cached.embedUrl, mediaType, mediaId, season, episode, animeVariant);
         }
-        embedUrl = `${providerConfig.baseUrl}/tv/${mediaId}/${season}/${episode}`;
-      } else {
-        throw new ValidationError(`Invalid media type: ${mediaType}. Must be 'movie' or 'tv'`);
+
+        await trackProviderRequest(provider, Date.now() - startTime, true);
+        await providerStatsService.record(provider, mediaType, true, Date.now() - startTime);
+        return this.withPlayerOptions(cached, options);
       }
 
-      const iframeCode = providerConfig.iframeTemplate.replace('{embedUrl}', embedUrl);
+      const embedUrl = providerRegistry.buildEmbedUrl(provider, providerMediaId, mediaType, season, episode, animeVariant);
 
-      const responseTime = Date.now() - startTime;
+      // Don't hand out embeds for episodes that don't exist
+      if (mediaType === 'tv') {
+        await metadataService.validateEpisode(mediaId, season!, episode!);
+      }
 
-      // Track successful provider request
-      await trackProviderRequest(provider, responseTime, true);
+      // Probe the provider on request so missing titles fail here instead of in the iframe
+      if (verify) {
+        await embedVerificationService.assertAvailable(provider, embedUrl, mediaType, mediaId, season, episode, animeVariant);
+      }
+
+      const iframeCode = providerRegistry.renderIframe(provider, embedUrl);
 
-      return {
+      const embedData: ProviderEmbedData = {
         provider: providerConfig.id,
         embedUrl,
         iframeCode
       };
+
+      await cacheService.set(cacheKey, embedData, {
+        ttl: PROVIDER_CACHE_TTL,
+        tags: [`provider:${provider}`, `media:${mediaType}:${mediaId}`]
+      });
+
+      const responseTime = Date.now() - startTime;
+
+      // Track successful provider request
+      await trackProviderRequest(provider, responseTime, true);
+      await providerStatsService.record(provider, mediaType, true, responseTime);
+
+      return this.withPlayerOptions(embedData, options);
     } catch (error) {
       const responseTime = Date.now() - startTime;
 
       // Track failed provider request
       await trackProviderRequest(provider, responseTime, false, error instanceof Error ? error.message : 'Unknown error');
 
+      // Unknown providers would otherwise create a stats entry per made-up id
+      if (providerRegistry.get(provider)) {
+        await providerStatsService.record(provider, mediaType, false, responseTime);
+      }
+
       // Track error in PostHog
       await trackError(
         error instanceof Error ? error.message : 'Unknown provider error',
@@ -203,9 +283,326 @@ export class ProviderService {
     }
   }
 
-  async getSupportedProviders(): Promise<ProviderConfig[]> {
+  /**
+   * Apply per-request player options on top of a (possibly cached) embed.
+   * Embeds are cached without options, so every combination shares one cache entry.
+   */
+  private withPlayerOptions(embedData: ProviderEmbedData, options: PlayerOptions): ProviderEmbedData {
+    if (Object.values(options).every(value => value === undefined)) {
+      return embedData;
+    }
+
+    const { embedUrl, unsupported } = providerRegistry.applyPlayerOptions(embedData.provider, embedData.embedUrl, options);
+
+    return {
+      ...embedData,
+      embedUrl,
+      iframeCode: providerRegistry.renderIframe(embedData.provider, embedUrl),
+      unsupportedOptions: unsupported
+    };
+  }
+
+  /**
+   * Wrap an embed in a signed, expiring redirect URL bound to a user.
+   * The plain provider URL is replaced everywhere so it can't be hotlinked from the response.
+   */
+  signEmbed(embedData: ProviderEmbedData, userId: string): SignedEmbedData {
+    const { signedUrl, expiresAt } = embedSigningService.sign(embedData.embedUrl, embedData.provider, userId);
+
+    return {
+      ...embedData,
+      embedUrl: signedUrl,
+      iframeCode: embedData.iframeCode.split(embedData.embedUrl).join(signedUrl),
+      signedUrl,
+      expiresAt
+    };
+  }
+
+  /**
+   * Drop cached embeds for a provider, e.g. after its base URL or template changes
+   */
+  async invalidateProviderCache(provider: string): Promise<number> {
+    return cacheService.invalidateTag(`provider:${provider}`);
+  }
+
+  async invalidateCacheTag(tag: string): Promise<number> {
+    return cacheService.invalidateTag(tag);
+  }
+
+  private getEmbedCacheKey(provider: string, mediaId: string, mediaType: string, season?: number, episode?: number, animeVariant?: AnimeVariant): string {
+    const base = `${RedisKeys.providerCache}embed:${provider}:${mediaType}:${mediaId}`;
+    if (mediaType === 'anime') {
+      return `${base}:${episode}:${animeVariant}`;
+    }
+    return mediaType === 'tv' ? `${base}:${season}:${episode}` : base;
+  }
+
+  // Anime requests carry an absolute episode, or a TMDB season/episode pair that is mapped to one
+  private async resolveAbsoluteEpisode(mediaId: string, season?: number, episode?: number): Promise<number> {
+    providerRegistry.validateMediaRequest('anime', season, episode);
+    return season === undefined ? episode! : metadataService.toAbsoluteEpisode(mediaId, season, episode!);
+  }
+
+  async getSeasonEmbedUrls(provider: string, mediaId: string, season: number, episodeCount?: number, country?: string, idType?: ProviderIdType): Promise<SeasonEmbedData> {
+    // TMDB is only asked for the count when the caller doesn't give one
+    if (episodeCount !== undefined && (!Number.isInteger(episodeCount) || episodeCount < 1 || episodeCount > MAX_SEASON_EPISODES)) {
+      throw new ValidationError(`Episode count must be between 1 and ${MAX_SEASON_EPISODES}`);
+    }
+
+    mediaId = await idMappingService.normalize(mediaId, 'tv', idType);
+
+    if (episodeCount === undefined) {
+      const knownCount = await metadataService.getSeasonEpisodeCount(mediaId, season);
+      if (knownCount === null) {
+        throw new ValidationError('Episode count is required when TMDB metadata is unavailable');
+      }
+      if (knownCount < 1) {
+        throw new NotFoundError(`Season ${season} of ${mediaId} has no episodes yet`);
+      }
+      episodeCount = Math.min(knownCount, MAX_SEASON_EPISODES);
+    }
+
+    const episodes: SeasonEmbedData['episodes'] = [];
+    for (let episode = 1; episode <= episodeCount; episode++) {
+      const embedData = await this.getProviderEmbedUrl(provider, mediaId, 'tv', season, episode, {}, country);
+      episodes.push({ episode, embedUrl: embedData.embedUrl, iframeCode: embedData.iframeCode });
+    }
+
+    return { provider, mediaId, season, episodes };
+  }
+
+  /**
+   * Resolve many embeds in one call. Failures are reported per item instead of failing the batch.
+   */
+  async getBatchEmbedUrls(items: BatchEmbedItem[], callerId?: string, country?: string, verify: boolean = false): Promise<BatchEmbedResult[]> {
+    if (items.length === 0) {
+      throw new ValidationError('At least one item is required');
+    }
+    if (items.length > EMBED_BATCH_MAX_ITEMS) {
+      throw new ValidationError(`A batch can contain at most ${EMBED_BATCH_MAX_ITEMS} items`);
+    }
+
+    return Promise.all(items.map(async (item, index): Promise<BatchEmbedResult> => {
+      let rateLimit: RateLimitStatus | null = null;
+      try {
+        if (callerId) {
+          rateLimit = await this.reserveRateLimit(item.provider, callerId);
+          if (rateLimit && !rateLimit.allowed) {
+            throw new RateLimitError(`Rate limit exceeded for provider ${item.provider}`);
+          }
+        }
+
+        const data = await this.getProviderEmbedUrl(item.provider, item.mediaId, item.mediaType || 'movie', item.season, item.episode, {}, country, verify, item.animeVariant, item.idType);
+
+        return { index, provider: item.provider, mediaId: item.mediaId, success: true, data };
+      } catch (error) {
+        if (callerId) {
+          await this.releaseRateLimit(item.provider, callerId, rateLimit);
+        }
+
+        const safeError = createSafeErrorResponse(error);
+        return {
+          index,
+          provider: item.provider,
+          mediaId: item.mediaId,
+          success: false,
+          error: {
+            statusCode: safeError.statusCode,
+            error: safeError.error,
+            message: safeError.message
+          }
+        };
+      }
+    }));
+  }
+
+  /**
+   * Walk the fallback chain and return the first provider that can serve the embed.
+   * Providers are skipped when disabled, in a maintenance window, excluded by their availability rules,
+   * marked offline by the health prober, their circuit is open, the caller has used up their rate limit,
+   * or (when verify is set) a probe shows the provider doesn't have the title. Each provider gets the id
+   * type its URL template declares, and is skipped when the id can't be mapped.
+   * Without an explicit order, the registry's routing policy decides which provider is tried first.
+   */
+  async getBestAvailableEmbedUrl(mediaId: string, mediaType: MediaType = 'movie', season?: number, episode?: number, order?: string[], options: PlayerOptions = {}, callerId?: string, country?: string, verify: boolean = false, animeVariant: AnimeVariant = 'sub', idType?: ProviderIdType): Promise<FailoverEmbedData> {
+    if (!mediaId || mediaId.trim() === '') {
+      throw new ValidationError('Media ID is required');
+    }
+
+    // Reject bad input upfront so it isn't counted as a provider failure
+    providerRegistry.validateMediaRequest(mediaType, season, episode);
+    mediaId = await idMappingService.normalize(mediaId, mediaType, idType);
+
+    // Validate and map episodes once so a bad episode isn't blamed on each provider
+    if (mediaType === 'tv') {
+      await metadataService.validateEpisode(mediaId, season!, episode!);
+    } else if (mediaType === 'anime') {
+      episode = await this.resolveAbsoluteEpisode(mediaId, season, episode);
+      season = undefined;
+    }
+
+    const startTime = Date.now();
+    const routing = order && order.length > 0 ? null : providerRegistry.route(callerId);
+    const chain = this.applyRouting(this.getFallbackChain(order), routing);
+    const skipped: FailoverEmbedData['skipped'] = [];
+
+    for (const providerId of chain) {
+      const providerConfig = providerRegistry.get(providerId);
+      if (!providerConfig) {
+        skipped.push({ provider: providerId, reason: 'not_registered' });
+        continue;
+      }
+
+      if (!providerConfig.enabled) {
+        skipped.push({ provider: providerId, reason: 'disabled' });
+        continue;
+      }
+
+      if (providerMaintenanceService.isUnderMaintenance(providerId)) {
+        skipped.push({ provider: providerId, reason: 'maintenance' });
+        continue;
+      }
+
+      let providerMediaId: string;
+      try {
+        providerMediaId = await idMappingService.toProviderId(providerId, mediaId, mediaType);
+      } catch {
+        skipped.push({ provider: providerId, reason: 'id_unmapped' });
+        continue;
+      }
+
+      const unavailableReason = providerRegistry.getUnavailableReason(providerId, { country, mediaType, mediaId: providerMediaId, animeVariant });
+      if (unavailableReason) {
+        skipped.push({ provider: providerId, reason: unavailableReason });
+        continue;
+      }
+
+      const health = providerHealthService.getHealth(providerId);
+      if (health?.status === 'offline') {
+        skipped.push({ provider: providerId, reason: 'offline' });
+        continue;
+      }
+
+      const rateLimit = callerId ? await this.reserveRateLimit(providerId, callerId) : null;
+      if (rateLimit && !rateLimit.allowed) {
+        skipped.push({ provider: providerId, reason: 'rate_limited' });
+        continue;
+      }
+
+      // Verified outside the circuit breaker so a missing title doesn't count against the provider
+      if (verify) {
+        const embedUrl = providerRegistry.buildEmbedUrl(providerId, providerMediaId, mediaType, season, episode, animeVariant);
+        const verification = await embedVerificationService.verify(providerId, embedUrl, mediaType, mediaId, season, episode, animeVariant);
+        if (verification.status === 'unavailable') {
+          if (callerId) {
+            await this.releaseRateLimit(providerId, callerId, rateLimit);
+          }
+          skipped.push({ provider: providerId, reason: 'embed_unavailable' });
+          continue;
+        }
+      }
+
+      try {
+        const embedData = await circuitBreaker.execute(
+          `provider:${providerId}`,
+          () => this.getProviderEmbedUrl(providerId, mediaId, mediaType, season, episode, options, country, false, animeVariant)
+        );
+
+        if (routing) {
+          await this.trackRoutingDecision(routing, providerId, Date.now() - startTime);
+        }
+
+        return {
+          ...embedData,
+          reason: skipped.length === 0 ? 'primary' : 'fallback',
+          skipped,
+          ...(routing && { routing })
+        };
+      } catch (error) {
+        if (callerId) {
+          await this.releaseRateLimit(providerId, callerId, rateLimit);
+        }
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        skipped.push({
+          provider: providerId,
+          reason: message.startsWith('Circuit breaker is OPEN') ? 'circuit_open' : `error: ${message}`
+        });
+      }
+    }
+
+    logger.warn(`No healthy provider available for ${mediaType} ${mediaId}`, { skipped });
+    if (routing) {
+      await this.trackRoutingDecision(routing, null, Date.now() - startTime);
+    }
+
+    const error = new ProviderError('No healthy provider available');
+    error.statusCode = 503;
+    error.details = { skipped };
+    throw error;
+  }
+
+  // Move the routed provider to the front; the control group of a canary keeps the canary as a last resort only
+  private applyRouting(chain: string[], routing: RoutingDecision | null): string[] {
+    if (!routing) {
+      return chain;
+    }
+
+    if (routing.provider) {
+      return [routing.provider, ...chain.filter(id => id !== routing.provider)];
+    }
+
+    const canaryProvider = providerRegistry.getRoutingPolicy()?.canary?.provider;
+    if (routing.cohort === 'control' && canaryProvider) {
+      return [...chain.filter(id => id !== canaryProvider), canaryProvider];
+    }
+
+    return chain;
+  }
+
+  // Success means the provider the policy picked served the request (any provider for a canary control group)
+  private async trackRoutingDecision(routing: RoutingDecision, servedBy: string | null, responseTime: number): Promise<void> {
+    const success = servedBy !== null && (routing.provider === null || servedBy === routing.provider);
+
+    await trackProviderRequest(
+      routing.provider || servedBy || 'none',
+      responseTime,
+      success,
+      success ? undefined : `Routed request served by ${servedBy || 'no provider'}`,
+      undefined,
+      {
+        routingStrategy: routing.strategy,
+        routedProvider: routing.provider,
+        servedBy,
+        ...(routing.cohort && { cohort: routing.cohort })
+      }
+    );
+  }
+
+  // An explicit order is used as-is, otherwise PROVIDER_FALLBACK_ORDER followed by the remaining registered providers
+  private getFallbackChain(order?: string[]): string[] {
+    const preferred = order && order.length > 0 ? order : PROVIDER_FALLBACK_ORDER;
+    const chain = [...preferred];
+
+    if (!order || order.length === 0) {
+      for (const provider of providerRegistry.getAll()) {
+        if (!chain.includes(provider.id)) {
+          chain.push(provider.id);
+        }
+      }
+    }
+
+    return Array.from(new Set(chain));
+  }
+
+  async getSupportedProviders(filter: AvailabilityContext = {}): Promise<ProviderConfig[]> {
     try {
-      const providers = Array.from(this.providers.values()).filter(provider => provider.enabled);
+      // Hide providers the health prober has marked offline, that are in a maintenance window,
+      // or whose availability rules exclude the caller's country or media type
+      const providers = providerRegistry.getEnabled().filter(provider =>
+        !providerHealthService.isOffline(provider.id) &&
+        !providerMaintenanceService.isUnderMaintenance(provider.id) &&
+        !providerRegistry.getUnavailableReason(provider.id, filter)
+      );
       logger.info(`getSupportedProviders: returning ${providers.length} providers`);
       return providers;
     } catch (error) {
@@ -220,7 +617,7 @@ export class ProviderService {
     disabledProviders: number;
     providers: ProviderConfig[];
   }> {
-    const allProviders = Array.from(this.providers.values());
+    const allProviders = providerRegistry.getAll();
     const enabledProviders = allProviders.filter(p => p.enabled);
     const disabledProviders = allProviders.filter(p => !p.enabled);
 
@@ -232,75 +629,60 @@ export class ProviderService {
     };
   }
 
-  // Rate limiting using Redis
-  async checkRateLimit(provider: string, userId: string): Promise<{ allowed: boolean; remaining: number; resetTime: number }> {
+  /**
+   * Reserve a slot in the caller's limit. Trimming, counting and recording run as one script,
+   * so concurrent requests can't both take the last slot or both be turned away.
+   * Give the slot back with releaseRateLimit if the request fails.
+   * Returns null when the provider has no rate limit or Redis is unavailable.
+   */
+  async reserveRateLimit(provider: string, callerId: string): Promise<RateLimitStatus | null> {
     try {
-      // Ensure Redis client is ready
       const client = await this.ensureRedisClient();
-      
-      // If Redis is not available, allow all requests
-      if (!client) {
-        return { allowed: true, remaining: 100, resetTime: Date.now() + 60000 };
-      }
-
-      const providerConfig = this.providers.get(provider);
-      if (!providerConfig || !providerConfig.rateLimit) {
-        return { allowed: true, remaining: 100, resetTime: Date.now() + 60000 };
+      const providerConfig = providerRegistry.get(provider);
+      if (!client || !providerConfig?.rateLimit) {
+        return null;
       }
 
       const { requests, windowMs } = providerConfig.rateLimit;
-      const key = `${RedisKeys.rateLimit}:${provider}:${userId}`;
       const now = Date.now();
-      const windowStart = now - windowMs;
+      // Members must be unique, otherwise requests in the same millisecond collapse into one
+      const reservation = `${now}:${Math.random().toString(36).slice(2, 10)}`;
 
-      // Remove old requests
-      await client.zRemRangeByScore(key, 0, windowStart);
+      const result = await client.eval(RESERVE_RATE_LIMIT_SCRIPT, [this.getRateLimitKey(provider, callerId)], [now, windowMs, requests, reservation]);
+      const [allowed, count, oldest] = result?.result || [];
 
-      // Add current request
-      await client.zAdd(key, [{ score: now, value: now.toString() }]);
-      await client.expire(key, Math.ceil(windowMs / 1000));
+      // The window frees up when the oldest recorded request expires
+      const resetTime = oldest ? Number(oldest) + windowMs : now + windowMs;
 
-      // Get current count
-      const currentCount = await client.zCard(key);
-      const remaining = Math.max(0, requests - currentCount);
+      if (Number(allowed) !== 1) {
+        return { allowed: false, limit: requests, remaining: 0, resetTime };
+      }
 
-      return {
-        allowed: currentCount <= requests,
-        remaining,
-        resetTime: now + windowMs
-      };
+      return { allowed: true, limit: requests, remaining: Math.max(0, requests - Number(count)), resetTime, reservation };
     } catch (error) {
-      logger.error('Rate limit check failed:', error);
+      logger.error('Rate limit reservation failed:', error);
       // Fallback to allow if Redis fails
-      return { allowed: true, remaining: 100, resetTime: Date.now() + 60000 };
+      return null;
     }
   }
 
-  async incrementRateLimit(provider: string, userId: string): Promise<void> {
+  // Failed requests don't count against the caller
+  async releaseRateLimit(provider: string, callerId: string, status: RateLimitStatus | null): Promise<void> {
+    if (!status?.reservation) {
+      return;
+    }
+
     try {
-      // Ensure Redis client is ready
       const client = await this.ensureRedisClient();
-      
-      // If Redis is not available, do nothing
-      if (!client) {
-        return;
-      }
-
-      const providerConfig = this.providers.get(provider);
-      if (!providerConfig || !providerConfig.rateLimit) {
-        return;
-      }
-
-      const { windowMs } = providerConfig.rateLimit;
-      const key = `${RedisKeys.rateLimit}:${provider}:${userId}`;
-      const now = Date.now();
-
-      await client.zAdd(key, [{ score: now, value: now.toString() }]);
-      await client.expire(key, Math.ceil(windowMs / 1000));
+      await client?.zrem(this.getRateLimitKey(provider, callerId), status.reservation);
     } catch (error) {
-      logger.error('Rate limit increment failed:', error);
+      logger.warn('Rate limit release failed:', error);
     }
   }
+
+  private getRateLimitKey(provider: string, callerId: string): string {
+    return `${RedisKeys.rateLimit}provider:${provider}:${callerId}`;
+  }
 }
 
 export const providerService = new ProviderService();
\ No newline at end of file
@@ -0,0 +1,237 @@
+import { logger } from '../utils/logger';
+import { getRedisClient, RedisKeys } from '../config/redis';
+import { ValidationError } from '../utils/errorHandler';
+import { StatsGranularity, ProviderUsageStats, ProviderUsageBucket } from '../types/index';
+
+interface GranularityConfig {
+  bucketMs: number;
+  retentionSeconds: number;
+}
+
+const GRANULARITIES: Record<StatsGranularity, GranularityConfig> = {
+  minute: { bucketMs: 60 * 1000, retentionSeconds: 24 * 60 * 60 },         // 1 day of minutes
+  hour: { bucketMs: 60 * 60 * 1000, retentionSeconds: 30 * 24 * 60 * 60 }, // 30 days of hours
+  day: { bucketMs: 24 * 60 * 60 * 1000, retentionSeconds: 365 * 24 * 60 * 60 }
+};
+
+// Upper bounds (ms) of the latency histogram; percentiles resolve to one of these
+const LATENCY_BOUNDS = [50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+// Largest number of buckets a single query may read
+const MAX_QUERY_BUCKETS = 1500;
+
+// Buckets read per pipeline round trip
+const BUCKETS_PER_PIPELINE = 250;
+
+interface UsageCounters {
+  requests: number;
+  successes: number;
+  errors: number;
+  latencySum: number;
+  histogram: number[]; // One slot per LATENCY_BOUNDS entry plus an overflow slot
+}
+
+/**
+ * Per-provider, per-media-type request counters bucketed by minute, hour and day.
+ * Each bucket is a Redis hash keyed by "<provider>|<mediaType>|<counter>" fields.
+ */
+class ProviderStatsService {
+  private static instance: ProviderStatsService;
+
+  public static getInstance(): ProviderStatsService {
+    if (!ProviderStatsService.instance) {
+      ProviderStatsService.instance = new ProviderStatsService();
+    }
+    return ProviderStatsService.instance;
+  }
+
+  async record(provider: string, mediaType: string, success: boolean, responseTime: number): Promise<void> {
+    try {
+      const client = getRedisClient();
+      const now = Date.now();
+      const prefix = `${provider}|${mediaType}`;
+      const latencySlot = this.getLatencySlot(responseTime);
+      const commands: Array<Array<string | number>> = [];
+
+      for (const [granularity, config] of Object.entries(GRANULARITIES)) {
+        const key = this.getBucketKey(granularity as StatsGranularity, this.getBucketStart(now, config.bucketMs));
+
+        commands.push(
+          ['HINCRBY', key, `${prefix}|requests`, 1],
+          ['HINCRBY', key, `${prefix}|${success ? 'successes' : 'errors'}`, 1],
+          ['HINCRBY', key, `${prefix}|latencySum`, Math.round(responseTime)],
+          ['HINCRBY', key, `${prefix}|lat${latencySlot}`, 1],
+          ['EXPIRE', key, config.retentionSeconds]
+        );
+      }
+
+      await client.pipeline(commands);
+    } catch (error) {
+      logger.warn(`Failed to record stats for provider ${provider}:`, error);
+    }
+  }
+
+  /**
+   * Read usage between two timestamps. Returns one row per bucket/provider/media type,
+   * plus totals per provider/media type across the whole range.
+   */
+  async getUsage(from: Date, to: Date, granularity: StatsGranularity, provider?: string): Promise<{
+    series: ProviderUsageBucket[];
+    totals: ProviderUsageStats[];
+  }> {
+    const config = GRANULARITIES[granularity];
+    if (!config) {
+      throw new ValidationError(`Invalid granularity: ${granularity}. Must be minute, hour or day`);
+    }
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+      throw new ValidationError('from must be a valid date before to');
+    }
+
+    const firstBucket = this.getBucketStart(from.getTime(), config.bucketMs);
+    const lastBucket = this.getBucketStart(to.getTime(), config.bucketMs);
+    const bucketCount = (lastBucket - firstBucket) / config.bucketMs + 1;
+    if (bucketCount > MAX_QUERY_BUCKETS) {
+      throw new ValidationError(`Range covers ${bucketCount} ${granularity} buckets, the maximum is ${MAX_QUERY_BUCKETS}`);
+    }
+
+    const series: ProviderUsageBucket[] = [];
+    const totals = new Map<string, UsageCounters>();
+
+    try {
+      const client = getRedisClient();
+
+      const bucketStarts: number[] = [];
+      for (let bucketStart = firstBucket; bucketStart <= lastBucket; bucketStart += config.bucketMs) {
+        bucketStarts.push(bucketStart);
+      }
+
+      for (let offset = 0; offset < bucketStarts.length; offset += BUCKETS_PER_PIPELINE) {
+        const batch = bucketStarts.slice(offset, offset + BUCKETS_PER_PIPELINE);
+        const results = await client.pipeline(batch.map(bucketStart => ['HGETALL', this.getBucketKey(granularity, bucketStart)]));
+
+        batch.forEach((bucketStart, index) => {
+          const fields = results?.[index]?.result;
+          if (!fields) return;
+
+          for (const [key, counters] of this.parseBucket(fields)) {
+            const [bucketProvider, mediaType] = key.split('|') as [string, string];
+            if (provider && bucketProvider !== provider) continue;
+
+            series.push({ timestamp: new Date(bucketStart), ...this.summarize(bucketProvider, mediaType, counters) });
+            this.addCounters(totals, key, counters);
+          }
+        });
+      }
+    } catch (error) {
+      logger.warn('Failed to read provider usage stats:', error);
+    }
+
+    return {
+      series,
+      totals: Array.from(totals.entries()).map(([key, counters]) => {
+        const [totalProvider, mediaType] = key.split('|') as [string, string];
+        return this.summarize(totalProvider, mediaType, counters);
+      })
+    };
+  }
+
+  // Group "<provider>|<mediaType>|<counter>" fields by provider and media type
+  private parseBucket(fields: Record<string, string>): Map<string, UsageCounters> {
+    const grouped = new Map<string, UsageCounters>();
+
+    for (const [field, value] of Object.entries(fields)) {
+      const parts = field.split('|');
+      if (parts.length !== 3) continue;
+
+      const key = `${parts[0]}|${parts[1]}`;
+      const counter = parts[2]!;
+      const amount = parseInt(value) || 0;
+
+      let counters = grouped.get(key);
+      if (!counters) {
+        counters = this.emptyCounters();
+        grouped.set(key, counters);
+      }
+
+      if (counter === 'requests' || counter === 'successes' || counter === 'errors' || counter === 'latencySum') {
+        counters[counter] += amount;
+      } else if (counter.startsWith('lat')) {
+        const slot = parseInt(counter.slice(3));
+        if (slot >= 0 && slot < counters.histogram.length) {
+          counters.histogram[slot]! += amount;
+        }
+      }
+    }
+
+    return grouped;
+  }
+
+  private addCounters(totals: Map<string, UsageCounters>, key: string, counters: UsageCounters): void {
+    const total = totals.get(key) || this.emptyCounters();
+    total.requests += counters.requests;
+    total.successes += counters.successes;
+    total.errors += counters.errors;
+    total.latencySum += counters.latencySum;
+    counters.histogram.forEach((count, slot) => {
+      total.histogram[slot]! += count;
+    });
+    totals.set(key, total);
+  }
+
+  private summarize(provider: string, mediaType: string, counters: UsageCounters): ProviderUsageStats {
+    return {
+      provider,
+      mediaType,
+      requests: counters.requests,
+      successes: counters.successes,
+      errors: counters.errors,
+      avgLatency: counters.requests > 0 ? Math.round(counters.latencySum / counters.requests) : null,
+      p50Latency: this.percentile(counters.histogram, 0.5),
+      p95Latency: this.percentile(counters.histogram, 0.95),
+      p99Latency: this.percentile(counters.histogram, 0.99)
+    };
+  }
+
+  // Upper bound of the histogram slot holding the percentile (overflow reports the largest bound)
+  private percentile(histogram: number[], p: number): number | null {
+    const total = histogram.reduce((sum, count) => sum + count, 0);
+    if (total === 0) return null;
+
+    const target = Math.ceil(total * p);
+    let cumulative = 0;
+    for (let slot = 0; slot < histogram.length; slot++) {
+      cumulative += histogram[slot]!;
+      if (cumulative >= target) {
+        return LATENCY_BOUNDS[Math.min(slot, LATENCY_BOUNDS.length - 1)]!;
+      }
+    }
+
+    return LATENCY_BOUNDS[LATENCY_BOUNDS.length - 1]!;
+  }
+
+  private getLatencySlot(responseTime: number): number {
+    const slot = LATENCY_BOUNDS.findIndex(bound => responseTime <= bound);
+    return slot === -1 ? LATENCY_BOUNDS.length : slot;
+  }
+
+  private emptyCounters(): UsageCounters {
+    return {
+      requests: 0,
+      successes: 0,
+      errors: 0,
+      latencySum: 0,
+      histogram: new Array(LATENCY_BOUNDS.length + 1).fill(0)
+    };
+  }
+
+  private getBucketStart(timestamp: number, bucketMs: number): number {
+    return Math.floor(timestamp / bucketMs) * bucketMs;
+  }
+
+  private getBucketKey(granularity: StatsGranularity, bucketStart: number): string {
+    return `${RedisKeys.providerStats}${granularity}:${bucketStart}`;
+  }
+}
+
+export const providerStatsService = ProviderStatsService.getInstance();
+export default providerStatsService;
@@ -0,0 +1,258 @@
+import axios, { AxiosInstance, AxiosProxyConfig, CreateAxiosDefaults, InternalAxiosRequestConfig } from 'axios';
+import { logger } from '../utils/logger';
+import { getRedisClient, RedisKeys } from '../config/redis';
+import { PROXY_URLS, PROXY_FAILURE_THRESHOLD, PROXY_QUARANTINE_MS } from '../config/environment';
+import { trackProxyUsage } from '../config/posthog';
+import { ProxyConfig } from '../types/index';
+
+// Weight given to the success rate of recent requests versus history
+const SUCCESS_RATE_ALPHA = 0.2;
+
+// Proxies with a poor record still get a little traffic so they can recover
+const MIN_PROXY_WEIGHT = 0.05;
+
+interface ProxiedRequestConfig extends InternalAxiosRequestConfig {
+  proxyUrl?: string;
+  proxyStartTime?: number;
+  proxyRetried?: boolean;
+  failedProxyUrl?: string; // Proxy the first attempt failed at, never picked for the retry
+}
+
+/**
+ * Pool of outbound HTTP proxies. Proxies are picked at random weighted by success rate,
+ * and quarantined for a while after repeated failures.
+ */
+class ProxyPoolService {
+  private static instance: ProxyPoolService;
+  private proxies = new Map<string, ProxyConfig>();
+
+  private constructor() {
+    for (const url of PROXY_URLS) {
+      this.addProxy(url, 'env');
+    }
+
+    if (this.proxies.size > 0) {
+      logger.info(`Proxy pool initialized with ${this.proxies.size} proxies from env`);
+    }
+  }
+
+  public static getInstance(): ProxyPoolService {
+    if (!ProxyPoolService.instance) {
+      ProxyPoolService.instance = new ProxyPoolService();
+    }
+    return ProxyPoolService.instance;
+  }
+
+  /**
+   * Add proxies stored in the Redis set proxies:pool on top of the env list
+   */
+  async loadFromRedis(): Promise<void> {
+    try {
+      const client = getRedisClient();
+      const result = await client.smembers(RedisKeys.proxyPool);
+      const urls: string[] = result?.result || [];
+
+      for (const url of urls) {
+        this.addProxy(url, 'redis');
+      }
+
+      if (urls.length > 0) {
+        logger.info(`Proxy pool synced from Redis (${this.proxies.size} proxies)`);
+      }
+    } catch (error) {
+      logger.warn('Failed to load proxies from Redis, using env list only:', error);
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.proxies.size > 0;
+  }
+
+  /**
+   * Pick an available proxy other than `exclude`, or null when the pool is empty or every other proxy is quarantined
+   */
+  select(exclude?: string): ProxyConfig | null {
+    const now = Date.now();
+    const available = Array.from(this.proxies.values()).filter(proxy => {
+      if (proxy.url === exclude || (proxy.quarantinedUntil && proxy.quarantinedUntil.getTime() > now)) {
+        return false;
+      }
+      return proxy.isActive;
+    });
+
+    if (available.length === 0) {
+      return null;
+    }
+
+    const weights = available.map(proxy => Math.max(proxy.successRate, MIN_PROXY_WEIGHT));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    let threshold = Math.random() * totalWeight;
+    for (let i = 0; i < available.length; i++) {
+      threshold -= weights[i]!;
+      if (threshold <= 0) {
+        return available[i]!;
+      }
+    }
+
+    return available[available.length - 1]!;
+  }
+
+  async reportResult(url: string, success: boolean, responseTime: number): Promise<void> {
+    const proxy = this.proxies.get(url);
+    if (!proxy) return;
+
+    const requestCount = (proxy.requestCount || 0) + 1;
+
+    proxy.lastUsed = new Date();
+    proxy.requestCount = requestCount;
+    proxy.successRate = proxy.successRate * (1 - SUCCESS_RATE_ALPHA) + (success ? SUCCESS_RATE_ALPHA : 0);
+    proxy.responseTime = Math.round(requestCount === 1 ? responseTime : proxy.responseTime * 0.8 + responseTime * 0.2);
+
+    if (success) {
+      proxy.consecutiveFailures = 0;
+      proxy.quarantinedUntil = null;
+    } else {
+      proxy.errorCount++;
+      proxy.consecutiveFailures = (proxy.consecutiveFailures || 0) + 1;
+
+      if (proxy.consecutiveFailures >= PROXY_FAILURE_THRESHOLD) {
+        proxy.quarantinedUntil = new Date(Date.now() + PROXY_QUARANTINE_MS);
+        logger.warn(`Proxy ${this.redact(url)} quarantined for ${PROXY_QUARANTINE_MS}ms after ${proxy.consecutiveFailures} failures`);
+      }
+    }
+
+    await trackProxyUsage(url, success, responseTime);
+  }
+
+  /**
+   * Axios instance whose requests go through the pool. Falls back to direct requests when no proxy is available.
+   */
+  createHttpClient(config: CreateAxiosDefaults = {}): AxiosInstance {
+    const client = axios.create(config);
+
+    client.interceptors.request.use((requestConfig: ProxiedRequestConfig) => {
+      const proxy = this.select(requestConfig.failedProxyUrl);
+      if (proxy) {
+        requestConfig.proxy = this.toAxiosProxy(proxy.url);
+        requestConfig.proxyUrl = proxy.url;
+        requestConfig.proxyStartTime = Date.now();
+      } else if (requestConfig.proxyUrl) {
+        // A retry with no other proxy left goes direct rather than through the one that just failed
+        delete requestConfig.proxy;
+        delete requestConfig.proxyUrl;
+        delete requestConfig.proxyStartTime;
+      }
+      return requestConfig;
+    });
+
+    client.interceptors.response.use(
+      async response => {
+        const requestConfig = response.config as ProxiedRequestConfig;
+        if (requestConfig.proxyUrl) {
+          // 407 means the proxy itself rejected us; any other response proves it is working
+          await this.reportResult(requestConfig.proxyUrl, response.status !== 407, Date.now() - (requestConfig.proxyStartTime || Date.now()));
+        }
+        return response;
+      },
+      async error => {
+        const requestConfig = error?.config as ProxiedRequestConfig | undefined;
+        if (requestConfig?.proxyUrl) {
+          const proxyWorked = !!error.response && error.response.status !== 407;
+          await this.reportResult(requestConfig.proxyUrl, proxyWorked, Date.now() - (requestConfig.proxyStartTime || Date.now()));
+
+          // Give a request that failed at the proxy one more go through a different proxy, or direct
+          if (!proxyWorked && !requestConfig.proxyRetried) {
+            requestConfig.proxyRetried = true;
+            requestConfig.failedProxyUrl = requestConfig.proxyUrl;
+            return client.request(requestConfig);
+          }
+        }
+        throw error;
+      }
+    );
+
+    return client;
+  }
+
+  getStatus(): {
+    enabled: boolean;
+    total: number;
+    available: number;
+    quarantined: number;
+    proxies: ProxyConfig[];
+  } {
+    const now = Date.now();
+    const proxies = Array.from(this.proxies.values()).map(proxy => ({ ...proxy, url: this.redact(proxy.url) }));
+    const quarantined = proxies.filter(proxy => proxy.quarantinedUntil && proxy.quarantinedUntil.getTime() > now).length;
+
+    return {
+      enabled: this.isEnabled(),
+      total: proxies.length,
+      available: proxies.filter(proxy => proxy.isActive).length - quarantined,
+      quarantined,
+      proxies
+    };
+  }
+
+  private addProxy(url: string, source: 'env' | 'redis'): void {
+    if (this.proxies.has(url)) return;
+
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new Error(`Unsupported proxy protocol ${parsed.protocol}`);
+      }
+    } catch (error) {
+      logger.error(`Skipping invalid proxy URL ${this.redact(url)}:`, error);
+      return;
+    }
+
+    this.proxies.set(url, {
+      url,
+      isActive: true,
+      lastUsed: new Date(0),
+      successRate: 1, // New proxies start trusted
+      responseTime: 0,
+      errorCount: 0,
+      requestCount: 0,
+      consecutiveFailures: 0,
+      quarantinedUntil: null,
+      source
+    });
+  }
+
+  private toAxiosProxy(url: string): AxiosProxyConfig {
+    const parsed = new URL(url);
+    const defaultPort = parsed.protocol === 'https:' ? 443 : 80;
+
+    return {
+      protocol: parsed.protocol.replace(':', ''),
+      host: parsed.hostname,
+      port: parsed.port ? parseInt(parsed.port) : defaultPort,
+      ...(parsed.username && {
+        auth: {
+          username: decodeURIComponent(parsed.username),
+          password: decodeURIComponent(parsed.password)
+        }
+      })
+    };
+  }
+
+  // Never expose proxy credentials in logs or API responses
+  private redact(url: string): string {
+    try {
+      const parsed = new URL(url);
+      if (parsed.username || parsed.password) {
+        parsed.username = '***';
+        parsed.password = '';
+      }
+      return parsed.toString();
+    } catch {
+      return 'invalid-proxy-url';
+    }
+  }
+}
+
+export const proxyPoolService = ProxyPoolService.getInstance();
+export default proxyPoolService;
@@ -0,0 +1,104 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { getRedisClient, RedisKeys } from '../config/redis';
+import { CHAT_HISTORY_SIZE, CHAT_MESSAGE_MAX_LENGTH } from '../config/environment';
+import { sanitizeString, isSafeInput } from '../utils/sanitizer';
+import { ValidationError } from '../utils/errorHandler';
+import { ChatMessage } from '../types/index';
+
+// Chat outlives the room key's rolling TTL, rooms themselves expire after a day
+const CHAT_TTL_SECONDS = 24 * 60 * 60;
+
+export interface ChatHistoryPage {
+  messages: ChatMessage[];
+  nextCursor: string | null;
+}
+
+/**
+ * Watch-together chat history. Each room keeps its newest CHAT_HISTORY_SIZE messages
+ * in a sorted set scored by send time.
+ */
+class RoomChatService {
+  private static instance: RoomChatService;
+
+  public static getInstance(): RoomChatService {
+    if (!RoomChatService.instance) {
+      RoomChatService.instance = new RoomChatService();
+    }
+    return RoomChatService.instance;
+  }
+
+  /**
+   * Sanitize and store a message. Throws ValidationError when nothing is left to send.
+   */
+  async addMessage(roomId: string, userId: string, username: string, text: unknown, type: ChatMessage['type'] = 'text'): Promise<ChatMessage> {
+    const message = sanitizeString(text, CHAT_MESSAGE_MAX_LENGTH);
+    if (!message || !isSafeInput(message)) {
+      throw new ValidationError('Message is empty or contains unsafe content');
+    }
+
+    const chatMessage: ChatMessage = {
+      id: uuidv4(),
+      roomId,
+      userId,
+      username: sanitizeString(username, 50) || 'User',
+      message,
+      timestamp: new Date(),
+      type
+    };
+
+    const client = getRedisClient();
+    const key = `${RedisKeys.roomChat}${roomId}`;
+
+    await client.zadd(key, [{ score: chatMessage.timestamp.getTime(), value: JSON.stringify(chatMessage) }]);
+    await client.zremrangebyrank(key, 0, -(CHAT_HISTORY_SIZE + 1));
+    await client.expire(key, CHAT_TTL_SECONDS);
+
+    return chatMessage;
+  }
+
+  /**
+   * A page of history, newest first. Pass the previous page's nextCursor to get older messages.
+   */
+  async getHistory(roomId: string, limit: number = 50, cursor?: string): Promise<ChatHistoryPage> {
+    try {
+      const client = getRedisClient();
+      const result = await client.zrange(`${RedisKeys.roomChat}${roomId}`, 0, -1, { REV: true });
+      const entries: string[] = result?.result || [];
+
+      const history: ChatMessage[] = entries.map(entry => {
+        const message = JSON.parse(entry);
+        return { ...message, timestamp: new Date(message.timestamp) };
+      });
+
+      // An unknown cursor (e.g. a message that was trimmed) means there's nothing older to return
+      const start = cursor ? history.findIndex(message => message.id === cursor) + 1 : 0;
+      if (cursor && start === 0) {
+        return { messages: [], nextCursor: null };
+      }
+
+      const messages = history.slice(start, start + limit);
+      const hasMore = start + limit < history.length;
+
+      return {
+        messages,
+        nextCursor: hasMore ? messages[messages.length - 1]!.id : null
+      };
+    } catch (error) {
+      logger.warn(`Failed to load chat history for room ${roomId}:`, error);
+      return { messages: [], nextCursor: null };
+    }
+  }
+
+  async deleteHistory(roomId: string): Promise<void> {
+    try {
+      const client = getRedisClient();
+      await client.del(`${RedisKeys.roomChat}${roomId}`);
+    } catch (error) {
+      logger.warn(`Failed to delete chat history for room ${roomId}:`, error);
+    }
+  }
+}
+
+export const roomChatService = RoomChatService.getInstance();
+export default roomChatService;
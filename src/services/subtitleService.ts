@@ -0,0 +1,236 @@
+import { createHash } from 'crypto';
+import { AxiosInstance } from 'axios';
+import { logger } from '../utils/logger';
+import { getRedisClient, RedisKeys } from '../config/redis';
+import { SUBTITLE_INDEX_URL, SUBTITLE_CACHE_TTL, HEALTH_CHECK_TIMEOUT, PUBLIC_API_URL } from '../config/environment';
+import { NotFoundError, ExternalServiceError } from '../utils/errorHandler';
+import { MediaType, ProviderIdType, SubtitleFormat, SubtitleTrack } from '../types/index';
+import { providerRegistry } from './providerRegistry';
+import { idMappingService } from './idMappingService';
+import { cacheService } from './cacheService';
+import { proxyPoolService } from './proxyPoolService';
+
+// Subtitle files larger than this are rejected
+const MAX_SUBTITLE_BYTES = 2 * 1024 * 1024;
+
+const LANGUAGE_PATTERN = /^[a-z]{2}$/;
+
+interface StoredTrack {
+  sourceUrl: string;
+  sourceFormat: SubtitleFormat;
+}
+
+/**
+ * Discovers subtitle tracks from provider-declared sources and the subtitle index, and serves them as WebVTT.
+ * Sources return a JSON array (or { tracks: [...] }) of { language, url, format?, label? }.
+ * Track ids are opaque hashes mapped to their source URL in Redis, so clients can't make us fetch arbitrary URLs.
+ */
+class SubtitleService {
+  private static instance: SubtitleService;
+  private httpClient: AxiosInstance = proxyPoolService.createHttpClient({
+    timeout: HEALTH_CHECK_TIMEOUT,
+    maxContentLength: MAX_SUBTITLE_BYTES
+  });
+
+  public static getInstance(): SubtitleService {
+    if (!SubtitleService.instance) {
+      SubtitleService.instance = new SubtitleService();
+    }
+    return SubtitleService.instance;
+  }
+
+  async getTracks(mediaId: string, mediaType: MediaType, season?: number, episode?: number, provider?: string, idType?: ProviderIdType): Promise<SubtitleTrack[]> {
+    if (mediaType !== 'movie') {
+      providerRegistry.validateMediaRequest(mediaType, season, episode);
+    }
+
+    const sources = this.getSources(provider);
+    mediaId = await idMappingService.normalize(mediaId, mediaType, idType);
+    const mediaKey = [mediaType, mediaId, season, episode].filter(part => part !== undefined).join(':');
+    const cacheKey = `${RedisKeys.subtitles}list:${mediaKey}:${provider || 'all'}`;
+
+    const cached = await cacheService.get<SubtitleTrack[]>(cacheKey);
+    if (cached) {
+      await this.refreshTrackKeys(cached);
+      return cached;
+    }
+
+    let failed = false;
+    const results = await Promise.all(sources.map(async ({ source, template }) => {
+      try {
+        // Providers get ids of the type their embed templates take; the index gets TMDB ids
+        const sourceMediaId = source === 'index' ? mediaId : await idMappingService.toProviderId(source, mediaId, mediaType);
+        return await this.fetchTracks(source, this.fillTemplate(template, sourceMediaId, mediaType, season, episode));
+      } catch (error) {
+        logger.warn(`Subtitle source ${source} failed for ${mediaKey}:`, error instanceof Error ? error.message : error);
+        failed = true;
+        return [];
+      }
+    }));
+
+    // The same file can be listed by several sources; provider listings win over the index
+    const tracks: SubtitleTrack[] = [];
+    for (const track of results.flat()) {
+      if (!tracks.some(existing => existing.id === track.id)) {
+        tracks.push(track);
+      }
+    }
+
+    // A partial list would hide the failed source's tracks for the whole cache lifetime
+    if (!failed) {
+      await cacheService.set(cacheKey, tracks, {
+        ttl: SUBTITLE_CACHE_TTL,
+        tags: [`media:${mediaType}:${mediaId}`, 'subtitles']
+      });
+    }
+
+    return tracks;
+  }
+
+  /**
+   * The WebVTT contents of a discovered track, converted from SRT when needed
+   */
+  async getTrackVtt(trackId: string): Promise<string> {
+    const vttKey = `${RedisKeys.subtitles}vtt:${trackId}`;
+    const cached = await cacheService.get<string>(vttKey);
+    if (cached) {
+      return cached;
+    }
+
+    const client = getRedisClient();
+    const stored = await client.get(`${RedisKeys.subtitles}track:${trackId}`);
+    if (!stored) {
+      throw new NotFoundError('Subtitle track not found or expired');
+    }
+
+    const track: StoredTrack = JSON.parse(stored);
+
+    let content: string;
+    try {
+      const response = await this.httpClient.get(track.sourceUrl, { responseType: 'text', transformResponse: data => data });
+      content = String(response.data);
+    } catch (error: any) {
+      throw new ExternalServiceError(`Failed to fetch subtitle track: ${error?.message || 'Unknown error'}`, 'subtitles');
+    }
+
+    const vtt = track.sourceFormat === 'srt' ? this.convertSrtToVtt(content) : this.normalizeVtt(content);
+
+    await cacheService.set(vttKey, vtt, { ttl: SUBTITLE_CACHE_TTL, compress: true, tags: ['subtitles'] });
+    return vtt;
+  }
+
+  convertSrtToVtt(srt: string): string {
+    const cues = srt
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n')
+      .trim()
+      // SRT uses a comma before milliseconds, WebVTT a dot and at least two hour digits
+      .replace(/(\d{1,2}):(\d{2}:\d{2}),(\d{3})/g, (_match, hours: string, rest: string, ms: string) => `${hours.padStart(2, '0')}:${rest}.${ms}`)
+      // Drop SSA positioning tags some SRT files carry
+      .replace(/\{\\an?\d+\}/g, '');
+
+    return `WEBVTT\n\n${cues}\n`;
+  }
+
+  private normalizeVtt(vtt: string): string {
+    const content = vtt.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    return content.startsWith('WEBVTT') ? content : `WEBVTT\n\n${content}`;
+  }
+
+  // Track ids in a cached list have to stay resolvable for as long as the list is served
+  private async refreshTrackKeys(tracks: SubtitleTrack[]): Promise<void> {
+    if (tracks.length === 0) {
+      return;
+    }
+
+    try {
+      const client = getRedisClient();
+      await client.pipeline(tracks.map(track => ['EXPIRE', `${RedisKeys.subtitles}track:${track.id}`, SUBTITLE_CACHE_TTL]));
+    } catch (error) {
+      logger.warn('Failed to refresh subtitle track keys:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  private getSources(provider?: string): Array<{ source: string; template: string }> {
+    if (provider) {
+      const config = providerRegistry.get(provider);
+      if (!config) {
+        throw new NotFoundError(`Provider ${provider} not found`);
+      }
+      return config.subtitleUrl ? [{ source: config.id, template: config.subtitleUrl }] : [];
+    }
+
+    const sources = providerRegistry.getEnabled()
+      .filter(config => config.subtitleUrl)
+      .map(config => ({ source: config.id, template: config.subtitleUrl! }));
+
+    if (SUBTITLE_INDEX_URL) {
+      sources.push({ source: 'index', template: SUBTITLE_INDEX_URL });
+    }
+
+    return sources;
+  }
+
+  private fillTemplate(template: string, mediaId: string, mediaType: MediaType, season?: number, episode?: number): string {
+    return template
+      .replace('{mediaType}', mediaType)
+      .replace('{mediaId}', encodeURIComponent(mediaId))
+      .replace('{season}', season !== undefined ? String(season) : '')
+      .replace('{episode}', episode !== undefined ? String(episode) : '');
+  }
+
+  private async fetchTracks(source: string, url: string): Promise<SubtitleTrack[]> {
+    const response = await this.httpClient.get(url);
+    const entries: any[] = Array.isArray(response.data) ? response.data : response.data?.tracks || [];
+
+    const client = getRedisClient();
+    const tracks: SubtitleTrack[] = [];
+
+    for (const entry of entries) {
+      const track = this.parseEntry(entry);
+      if (!track) continue;
+
+      const id = createHash('sha256').update(track.sourceUrl).digest('base64url').slice(0, 32);
+      const stored: StoredTrack = { sourceUrl: track.sourceUrl, sourceFormat: track.sourceFormat };
+      await client.set(`${RedisKeys.subtitles}track:${id}`, JSON.stringify(stored), { EX: SUBTITLE_CACHE_TTL });
+
+      tracks.push({
+        id,
+        language: track.language,
+        label: track.label,
+        format: 'vtt',
+        sourceFormat: track.sourceFormat,
+        source,
+        url: `${PUBLIC_API_URL}/v1/subtitles/tracks/${id}`
+      });
+    }
+
+    return tracks;
+  }
+
+  // Entries without a usable language, http(s) URL or a known format are skipped
+  private parseEntry(entry: any): { language: string; label: string; sourceUrl: string; sourceFormat: SubtitleFormat } | null {
+    const language = String(entry?.language || entry?.lang || '').toLowerCase();
+    const sourceUrl = typeof entry?.url === 'string' ? entry.url : '';
+    if (!LANGUAGE_PATTERN.test(language) || !/^https?:\/\//.test(sourceUrl)) {
+      return null;
+    }
+
+    const declared = String(entry.format || '').toLowerCase();
+    const extension = sourceUrl.split('?')[0]!.split('.').pop()!.toLowerCase();
+    const sourceFormat = [declared, extension].find((format): format is SubtitleFormat => format === 'srt' || format === 'vtt');
+    if (!sourceFormat) {
+      return null;
+    }
+
+    return {
+      language,
+      label: typeof entry.label === 'string' && entry.label ? entry.label.slice(0, 100) : language,
+      sourceUrl,
+      sourceFormat
+    };
+  }
+}
+
+export const subtitleService = SubtitleService.getInstance();
+export default subtitleService;
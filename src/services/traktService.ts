@@ -0,0 +1,269 @@
+import axios, { AxiosInstance } from 'axios';
+import { logger } from '../utils/logger';
+import { getRedisClient, RedisKeys } from '../config/redis';
+import { TRAKT_API_URL, TRAKT_CLIENT_ID, TRAKT_CLIENT_SECRET, HEALTH_CHECK_TIMEOUT } from '../config/environment';
+import { NotFoundError, ExternalServiceError } from '../utils/errorHandler';
+import { trackUserAction } from '../config/posthog';
+import { TraktTokens, TraktScrobbleAction, TraktScrobbleMedia } from '../types/index';
+import { circuitBreaker } from './circuitBreakerService';
+import { metadataService } from './metadataService';
+
+export interface TraktServiceOptions {
+  httpClient?: AxiosInstance;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+export interface TraktDeviceCode {
+  userCode: string;
+  verificationUrl: string;
+  expiresIn: number; // Seconds
+  interval: number; // Seconds between polls
+}
+
+export type TraktLinkStatus = 'linked' | 'pending' | 'slow_down' | 'expired' | 'denied';
+
+// Refresh access tokens this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+const TMDB_ID_PATTERN = /^\d+$/;
+
+/**
+ * Links Supabase users to Trakt accounts via the OAuth device-code flow and scrobbles playback.
+ * The HTTP client is injectable and the base URL comes from TRAKT_API_URL, so it can point at a local fake.
+ */
+export class TraktService {
+  private httpClient: AxiosInstance;
+  private clientId: string;
+  private clientSecret: string;
+
+  constructor(options: TraktServiceOptions = {}) {
+    this.clientId = options.clientId ?? TRAKT_CLIENT_ID;
+    this.clientSecret = options.clientSecret ?? TRAKT_CLIENT_SECRET;
+    this.httpClient = options.httpClient || axios.create({
+      baseURL: TRAKT_API_URL,
+      timeout: HEALTH_CHECK_TIMEOUT,
+      headers: {
+        'Content-Type': 'application/json',
+        'trakt-api-version': '2',
+        'trakt-api-key': this.clientId
+      }
+    });
+  }
+
+  isConfigured(): boolean {
+    return !!this.clientId && !!this.clientSecret;
+  }
+
+  /**
+   * Start linking: returns the code the user enters at the verification URL.
+   * The device code itself stays server-side until the link completes or expires.
+   */
+  async startDeviceAuth(userId: string): Promise<TraktDeviceCode> {
+    this.assertConfigured();
+
+    const data = await this.request('post', '/oauth/device/code', { client_id: this.clientId });
+
+    const client = getRedisClient();
+    await client.set(`${RedisKeys.traktDeviceCode}${userId}`, data.device_code, { EX: data.expires_in });
+
+    await trackUserAction('trakt_link_started', userId);
+
+    return {
+      userCode: data.user_code,
+      verificationUrl: data.verification_url,
+      expiresIn: data.expires_in,
+      interval: data.interval
+    };
+  }
+
+  /**
+   * Poll Trakt for the outcome of a pending device-code link. Stores tokens once the user approves.
+   */
+  async pollDeviceAuth(userId: string): Promise<TraktLinkStatus> {
+    this.assertConfigured();
+
+    const client = getRedisClient();
+    const deviceKey = `${RedisKeys.traktDeviceCode}${userId}`;
+    const deviceCode = await client.get(deviceKey);
+    if (!deviceCode) {
+      throw new NotFoundError('No pending Trakt link for this user');
+    }
+
+    try {
+      const response = await this.httpClient.post('/oauth/device/token', {
+        code: deviceCode,
+        client_id: this.clientId,
+        client_secret: this.clientSecret
+      });
+
+      await this.saveTokens(userId, response.data);
+      await client.del(deviceKey);
+      await trackUserAction('trakt_linked', userId);
+
+      return 'linked';
+    } catch (error: any) {
+      // Trakt reports the state of a pending device code through the status code
+      switch (error?.response?.status) {
+        case 400:
+          return 'pending';
+        case 429:
+          return 'slow_down';
+        case 404:
+        case 409:
+        case 410:
+          await client.del(deviceKey);
+          return 'expired';
+        case 418:
+          await client.del(deviceKey);
+          return 'denied';
+        default:
+          throw new ExternalServiceError(`Trakt device token request failed: ${error?.message || 'Unknown error'}`, 'trakt');
+      }
+    }
+  }
+
+  async isLinked(userId: string): Promise<boolean> {
+    return (await this.getTokens(userId)) !== null;
+  }
+
+  async unlink(userId: string): Promise<void> {
+    const tokens = await this.getTokens(userId);
+    if (!tokens) {
+      throw new NotFoundError('Trakt account is not linked');
+    }
+
+    try {
+      await this.httpClient.post('/oauth/revoke', {
+        token: tokens.accessToken,
+        client_id: this.clientId,
+        client_secret: this.clientSecret
+      });
+    } catch (error) {
+      // The link is removed locally even if Trakt can't be reached
+      logger.warn(`Failed to revoke Trakt token for user ${userId}:`, error instanceof Error ? error.message : error);
+    }
+
+    const client = getRedisClient();
+    await client.del(`${RedisKeys.traktTokens}${userId}`);
+    await trackUserAction('trakt_unlinked', userId);
+  }
+
+  /**
+   * Send a scrobble for a linked user. Never throws: unlinked users are skipped and
+   * Trakt failures are logged, so scrobbling can't break playback.
+   */
+  async scrobble(userId: string, action: TraktScrobbleAction, media: TraktScrobbleMedia, progress: number): Promise<boolean> {
+    // Trakt items are matched by TMDB id, other ids can't be scrobbled
+    if (!this.isConfigured() || !TMDB_ID_PATTERN.test(media.tmdbId)) {
+      return false;
+    }
+
+    try {
+      const accessToken = await this.getAccessToken(userId);
+      if (!accessToken) {
+        return false;
+      }
+
+      const body = {
+        ...(await this.buildScrobbleItem(media)),
+        progress: Math.min(100, Math.max(0, Math.round(progress * 100) / 100))
+      };
+
+      await this.request('post', `/scrobble/${action}`, body, accessToken);
+      logger.debug(`Trakt scrobble ${action} for user ${userId} (${media.mediaType} ${media.tmdbId})`);
+      return true;
+    } catch (error) {
+      logger.warn(`Trakt scrobble ${action} failed for user ${userId}:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  private async buildScrobbleItem(media: TraktScrobbleMedia): Promise<Record<string, any>> {
+    const ids = { tmdb: parseInt(media.tmdbId) };
+
+    if (media.mediaType === 'movie') {
+      return { movie: { ids } };
+    }
+
+    // Trakt tracks anime as TV episodes, so absolute numbers are mapped back to season/episode
+    let { season, episode } = media;
+    if (media.mediaType === 'anime' && season === undefined) {
+      ({ season, episode } = await metadataService.fromAbsoluteEpisode(media.tmdbId, episode!));
+    }
+
+    return {
+      show: { ids },
+      episode: { season, number: episode }
+    };
+  }
+
+  // Valid access token for the user, refreshed when close to expiry; null if not linked
+  private async getAccessToken(userId: string): Promise<string | null> {
+    const tokens = await this.getTokens(userId);
+    if (!tokens) {
+      return null;
+    }
+
+    if (tokens.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+      return tokens.accessToken;
+    }
+
+    const data = await this.request('post', '/oauth/token', {
+      refresh_token: tokens.refreshToken,
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      redirect_uri: 'urn:ietf:wg:oauth:2.0:oob',
+      grant_type: 'refresh_token'
+    });
+
+    const refreshed = await this.saveTokens(userId, data);
+    return refreshed.accessToken;
+  }
+
+  private async getTokens(userId: string): Promise<TraktTokens | null> {
+    const client = getRedisClient();
+    const stored = await client.get(`${RedisKeys.traktTokens}${userId}`);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  private async saveTokens(userId: string, data: any): Promise<TraktTokens> {
+    const createdAt = data.created_at ? data.created_at * 1000 : Date.now();
+    const tokens: TraktTokens = {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      scope: data.scope || 'public',
+      createdAt,
+      expiresAt: createdAt + (data.expires_in || 0) * 1000
+    };
+
+    const client = getRedisClient();
+    await client.set(`${RedisKeys.traktTokens}${userId}`, JSON.stringify(tokens));
+
+    return tokens;
+  }
+
+  private async request(method: 'get' | 'post', path: string, body?: any, accessToken?: string): Promise<any> {
+    return circuitBreaker.execute('trakt', async () => {
+      try {
+        const response = await this.httpClient.request({
+          method,
+          url: path,
+          data: body,
+          ...(accessToken && { headers: { Authorization: `Bearer ${accessToken}` } })
+        });
+        return response.data;
+      } catch (error: any) {
+        throw new ExternalServiceError(`Trakt request failed: ${error?.message || 'Unknown error'}`, 'trakt');
+      }
+    });
+  }
+
+  private assertConfigured(): void {
+    if (!this.isConfigured()) {
+      throw new ExternalServiceError('Trakt is not configured', 'trakt');
+    }
+  }
+}
+
+export const traktService = new TraktService();
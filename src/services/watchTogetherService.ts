@@ -1,5 +1,5 @@
 import { Server, Socket } from 'socket.io';
-import { WatchTogetherRoom, PlaybackAction, RoomEvent } from '../types';
+import { Room, WatchTogetherRoom, PlaybackAction, RoomEvent, TraktScrobbleAction, TraktScrobbleMedia, MediaType, AnimeVariant, PlaybackClock, PlaybackClockState, RoomQueueItem, RoomRole, RoomPermission } from '../types';
 import {
   setRoom,
   getRoom,
@@ -25,6 +25,16 @@ import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger';
 import { validateSupabaseToken } from '../config/supabase';
 import { notificationService } from './notificationService';
+import { providerRegistry } from './providerRegistry';
+import { idMappingService } from './idMappingService';
+import { metadataService, toMetadataType } from './metadataService';
+import { traktService } from './traktService';
+import { roomChatService } from './roomChatService';
+import { sanitizeString, sanitizeNumber, sanitizeQueueItem } from '../utils/sanitizer';
+import { AppError, ValidationError, NotFoundError, AuthorizationError } from '../utils/errorHandler';
+import { ROOM_QUEUE_MAX_SIZE } from '../config/environment';
+import { createPlaybackClock, getLivePosition, reanchorPlaybackClock, describePlaybackClock, PlaybackClockChanges } from '../utils/playbackClock';
+import { ROOM_ROLE_PERMISSIONS, ASSIGNABLE_ROOM_ROLES, getRoomRole, hasRoomPermission, outranks, pickNextHost } from '../utils/roomRoles';
 import { trackWatchTogetherEvent, trackWebSocketConnection, trackError, trackUserAction } from '../config/posthog';
 import * as Sentry from '@sentry/node';
 
@@ -54,7 +64,7 @@ export class WatchTogetherService {
         try {
           const user = await validateSupabaseToken(data.token);
           socket.data.userId = user.id;
-          socket.data.isAdmin = false; // Default to false, can be enhanced later
+          socket.data.username = this.getDisplayName(user);
           logger.info(`User ${user.id} authenticated for WebSocket via Supabase`);
 
           // Track successful authentication
@@ -63,7 +73,7 @@ export class WatchTogetherService {
             timestamp: new Date().toISOString()
           });
 
-          callback({ success: true, isAdmin: false });
+          callback({ success: true });
         } catch (error) {
           logger.error('WebSocket authentication failed:', error);
 
@@ -90,7 +100,7 @@ export class WatchTogetherService {
 
       socket.on('create_room', async (data, callback) => {
         try {
-          const { name, mediaId, mediaType, providerId, token, isPublic = true, maxParticipants = 10 } = data;
+          const { name, mediaId, mediaType, animeVariant, providerId, token, isPublic = true, maxParticipants = 10 } = data;
 
           // Verify Supabase token
           const user = await validateSupabaseToken(token);
@@ -98,6 +108,7 @@ export class WatchTogetherService {
           
           const roomId = uuidv4();
           const shareableLink = isPublic ? `${process.env.FRONTEND_URL || 'http://localhost:3000'}/watch-together/${roomId}` : null;
+          const currentVideo = await this.resolveCurrentVideo(mediaId, mediaType, providerId || 'vidnest');
           
           const room: WatchTogetherRoom = {
             id: roomId,
@@ -106,8 +117,10 @@ export class WatchTogetherService {
             adminId,
             mediaId,
             mediaType,
+            ...(mediaType === 'anime' && { animeVariant: animeVariant === 'dub' ? 'dub' : 'sub' }),
             providerId: providerId || 'vidnest',
             participants: [adminId],
+            currentVideo,
             currentState: {
               playbackState: {
                 isPlaying: false,
@@ -116,6 +129,7 @@ export class WatchTogetherService {
               },
               timestamp: Date.now()
             },
+            playbackClock: createPlaybackClock(),
             isPublic,
             ...(shareableLink && { shareableLink }),
             maxParticipants,
@@ -152,7 +166,7 @@ export class WatchTogetherService {
           socket.join(roomId);
           socket.data.roomId = roomId;
           socket.data.userId = adminId;
-          socket.data.isAdmin = true;
+          socket.data.username = this.getDisplayName(user);
 
           // Track room creation
           await trackWatchTogetherEvent('room_created', roomId, adminId, {
@@ -228,20 +242,25 @@ export class WatchTogetherService {
           socket.join(roomId);
           socket.data.roomId = roomId;
           socket.data.userId = userId;
-          socket.data.isAdmin = false;
+          socket.data.username = this.getDisplayName(user);
 
           // Send current state to new user
           const currentState = await getRoomState(roomId);
+          const role = this.getSocketRole(socket, room);
           socket.emit('initial_state', {
             currentState: currentState || room.currentState,
+            clock: this.getClockState(room),
             participants: room.participants,
-            isAdmin: false
+            role,
+            permissions: this.getSocketPermissions(socket, room),
+            isAdmin: role === 'host'
           });
 
           this.io.to(roomId).emit('user_joined', {
             userId,
             participants: room.participants,
-            isAdmin: false
+            role,
+            isAdmin: role === 'host'
           });
 
           // Track user joining room
@@ -279,9 +298,9 @@ export class WatchTogetherService {
           delete socket.data.userId;
 
           // If admin leaves, transfer admin to another participant
-          if (room.adminId === userId && room.participants.length > 0) {
-            const newAdmin = room.participants[0];
-            (room as any).adminId = newAdmin;
+          const newAdmin = room.adminId === userId ? pickNextHost(room) : undefined;
+          if (newAdmin) {
+            this.promoteToHost(room, newAdmin);
             
             this.io.to(roomId).emit('admin_changed', {
               newAdmin,
@@ -298,6 +317,7 @@ export class WatchTogetherService {
             multi.del(`${RedisKeys.rooms}${roomId}`);
             multi.del(`${RedisKeys.roomParticipants}${roomId}`);
             multi.del(`${RedisKeys.roomState}${roomId}`);
+            multi.del(`${RedisKeys.roomChat}${roomId}`);
             multi.sRem(RedisKeys.activeRooms, roomId);
             
             await multi.exec();
@@ -317,7 +337,6 @@ export class WatchTogetherService {
         try {
           const { roomId, action, timestamp } = data;
           const userId = socket.data.userId;
-          const isAdmin = socket.data.isAdmin;
           
           const room = await getRoom(roomId);
           if (!room) {
@@ -325,9 +344,10 @@ export class WatchTogetherService {
             return;
           }
 
-          // Check if user is authenticated and has permission
-          if (!isAdmin && room.adminId !== userId) {
-            socket.emit('error', { message: 'Only admin can perform this action' });
+          // Check if user is authenticated and their role allows the action
+          const permission: RoomPermission = ['changeEpisode', 'changeProvider', 'changeMedia'].includes(action?.type) ? 'changeMedia' : 'controlPlayback';
+          if (!this.can(socket, room, permission)) {
+            socket.emit('error', { message: permission === 'changeMedia' ? 'Your role cannot change media in this room' : 'Your role cannot control playback in this room' });
             return;
           }
 
@@ -341,52 +361,95 @@ export class WatchTogetherService {
 
           let stateUpdate: any = {};
           let broadcastEvent = 'playback_updated';
+          const clock = this.getClock(room);
+          const clockChanges: PlaybackClockChanges = {};
+          let advancedTo: RoomQueueItem | undefined;
           
           switch (action.type) {
             case 'play':
               stateUpdate.isPlaying = true;
+              clockChanges.isPlaying = true;
               break;
             case 'pause':
               stateUpdate.isPlaying = false;
+              clockChanges.isPlaying = false;
               break;
             case 'seek':
             case 'updateTime':
+              // Reports from the admin's player re-anchor the clock, correcting buffering drift
               stateUpdate.currentTime = action.data.currentTime;
+              clockChanges.anchorPosition = Math.max(0, Number(action.data.currentTime) || 0);
               break;
             case 'setPlaybackRate':
               stateUpdate.playbackRate = action.data.rate;
+              if (Number(action.data.rate) > 0) {
+                clockChanges.rate = Number(action.data.rate);
+              }
               break;
             case 'changeEpisode':
+              // Anime rooms track the absolute episode only
+              if (action.data.season && room.mediaType !== 'anime') {
+                stateUpdate.currentSeason = action.data.season;
+              }
               stateUpdate.currentEpisode = action.data.episode || 1;
               stateUpdate.currentTime = 0;
+              clockChanges.anchorPosition = 0;
+              stateUpdate.providerUrl = await this.generateProviderUrl(room, room.providerId || '', room.mediaId || '', {
+                season: stateUpdate.currentSeason ?? (room.currentState as any)?.currentSeason ?? 1,
+                episode: stateUpdate.currentEpisode
+              });
               broadcastEvent = 'episode_changed';
               break;
             case 'changeProvider':
-              stateUpdate.providerUrl = this.generateProviderUrl(action.data.provider, room.mediaId || '');
+              stateUpdate.providerUrl = await this.generateProviderUrl(room, action.data.provider, room.mediaId || '');
               stateUpdate.currentTime = 0;
+              clockChanges.anchorPosition = 0;
               broadcastEvent = 'provider_changed';
               break;
             case 'changeMedia':
               stateUpdate.mediaId = action.data.mediaId;
               stateUpdate.currentEpisode = 1;
               stateUpdate.currentTime = 0;
-              stateUpdate.providerUrl = this.generateProviderUrl(room.providerId || '', action.data.mediaId || '');
+              clockChanges.anchorPosition = 0;
+              stateUpdate.providerUrl = await this.generateProviderUrl(room, room.providerId || '', action.data.mediaId || '', { season: 1, episode: 1 });
               broadcastEvent = 'media_changed';
               break;
             case 'fastForward':
             case 'rewind':
-              const currentTime = room.currentState?.playbackState?.currentTime || 0;
+              const currentTime = getLivePosition(clock);
               const skipAmount = action.data.skipAmount || 120;
               const newTime = action.type === 'fastForward' ?
                 currentTime + skipAmount :
                 Math.max(0, currentTime - skipAmount);
               
               stateUpdate.currentTime = newTime;
+              clockChanges.anchorPosition = newTime;
               broadcastEvent = 'time_skipped';
               break;
+            case 'ended':
+              // Players report what finished, so a late report for the previous item can't skip the current one
+              if (!this.isCurrentItem(room, action.data)) {
+                logger.warn(`Ignoring ended action for a media item that is no longer playing in room ${roomId}`);
+                return;
+              }
+
+              stateUpdate.isPlaying = false;
+              clockChanges.isPlaying = false;
+
+              // Starting the next item changes the room's media, which controlling playback alone doesn't allow
+              advancedTo = room.settings?.autoPlay && this.can(socket, room, 'changeMedia') ? room.queue?.shift() : undefined;
+              if (advancedTo) {
+                Object.assign(stateUpdate, await this.playQueueItem(room, advancedTo));
+                stateUpdate.isPlaying = true;
+                clockChanges.anchorPosition = 0;
+                clockChanges.isPlaying = true;
+                broadcastEvent = 'queue_advanced';
+              }
+              break;
           }
 
           room.currentState = { ...room.currentState, ...stateUpdate };
+          this.setClock(room, reanchorPlaybackClock(clock, clockChanges));
           room.updatedAt = new Date();
 
           await setRoom(room);
@@ -406,18 +469,25 @@ export class WatchTogetherService {
           this.io.to(roomId).emit(broadcastEvent, {
             action,
             state: room.currentState,
+            clock: this.getClockState(room),
+            ...(advancedTo && { queueItem: advancedTo, queue: room.queue || [] }),
             userId,
-            isAdmin: isAdmin || false,
+            role: this.getSocketRole(socket, room),
+            isAdmin: room.adminId === userId,
             timestamp: room.updatedAt,
             roomId
           });
 
           // Send push notification for admin actions
-          if (isAdmin) {
+          if (room.adminId === userId) {
             notificationService.notifyAdminAction(roomId, 'Admin', action.type, room.participants);
           }
 
-          logger.info(`Admin ${userId} performed ${action.type} action in room ${roomId}`);
+          if (action.type === 'play' || action.type === 'pause') {
+            this.scrobbleRoom(room, action.type === 'play' ? 'start' : 'pause');
+          }
+
+          logger.info(`User ${userId} performed ${action.type} action in room ${roomId}`);
         } catch (error) {
           logger.error('Error handling playback action:', error);
         }
@@ -438,6 +508,7 @@ export class WatchTogetherService {
           
           socket.emit('sync_response', {
             currentState: currentState || room.currentState,
+            clock: this.getClockState(room),
             timestamp: room.updatedAt,
             adminId: room.adminId
           });
@@ -446,6 +517,213 @@ export class WatchTogetherService {
         }
       });
 
+      socket.on('send_message', async (data, callback) => {
+        try {
+          const { roomId, message, type } = data;
+          const userId = socket.data.userId;
+
+          const room = await getRoom(roomId);
+          if (!room) {
+            callback({ success: false, error: 'Room not found' });
+            return;
+          }
+
+          if (!userId || !this.isRoomMember(socket, room, userId)) {
+            callback({ success: false, error: 'Not a member of this room' });
+            return;
+          }
+
+          if (!room.settings?.allowChat) {
+            callback({ success: false, error: 'Chat is disabled in this room' });
+            return;
+          }
+
+          if (!this.can(socket, room, 'chat')) {
+            callback({ success: false, error: 'Your role cannot chat in this room' });
+            return;
+          }
+
+          // System messages are only sent by the server
+          const chatMessage = await roomChatService.addMessage(roomId, userId, socket.data.username, message, type === 'action' ? 'action' : 'text');
+
+          this.io.to(roomId).emit('chat_message', chatMessage);
+
+          await trackWatchTogetherEvent('chat_message', roomId, userId, {
+            type: chatMessage.type,
+            length: chatMessage.message.length
+          });
+
+          callback({ success: true, message: chatMessage });
+        } catch (error) {
+          logger.error('Error sending chat message:', error);
+          callback({ success: false, error: error instanceof ValidationError ? error.message : 'Failed to send message' });
+        }
+      });
+
+      socket.on('chat_history', async (data, callback) => {
+        try {
+          const { roomId, limit, cursor } = data;
+          const userId = socket.data.userId;
+
+          const room = await getRoom(roomId);
+          if (!room) {
+            callback({ success: false, error: 'Room not found' });
+            return;
+          }
+
+          if (!userId || !this.isRoomMember(socket, room, userId)) {
+            callback({ success: false, error: 'Not a member of this room' });
+            return;
+          }
+
+          const page = await roomChatService.getHistory(roomId, sanitizeNumber(limit, 1, 100) || 50, cursor ? sanitizeString(cursor, 36) : undefined);
+          callback({ success: true, ...page });
+        } catch (error) {
+          logger.error('Error loading chat history:', error);
+          callback({ success: false, error: 'Failed to load chat history' });
+        }
+      });
+
+      socket.on('queue_add', async (data, callback) => {
+        try {
+          const { roomId, item } = data;
+          const userId = socket.data.userId;
+
+          const room = await getRoom(roomId);
+          if (!room) {
+            callback({ success: false, error: 'Room not found' });
+            return;
+          }
+
+          if (!userId || !this.isRoomMember(socket, room, userId)) {
+            callback({ success: false, error: 'Not a member of this room' });
+            return;
+          }
+
+          if (!this.can(socket, room, 'queue')) {
+            callback({ success: false, error: 'Your role cannot add to the queue in this room' });
+            return;
+          }
+
+          const queue = room.queue || [];
+          if (queue.length >= ROOM_QUEUE_MAX_SIZE) {
+            callback({ success: false, error: `The queue is limited to ${ROOM_QUEUE_MAX_SIZE} items` });
+            return;
+          }
+
+          const queueItem = await this.createQueueItem(item, userId);
+          room.queue = [...queue, queueItem];
+          await this.saveQueue(room, userId);
+
+          await trackWatchTogetherEvent('queue_item_added', roomId, userId, {
+            mediaType: queueItem.mediaType,
+            queueLength: room.queue.length
+          });
+
+          callback({ success: true, item: queueItem });
+        } catch (error) {
+          logger.error('Error adding to room queue:', error);
+          callback({ success: false, error: error instanceof ValidationError || error instanceof NotFoundError ? error.message : 'Failed to add to queue' });
+        }
+      });
+
+      socket.on('queue_remove', async (data, callback) => {
+        try {
+          const { roomId, itemId } = data;
+          const userId = socket.data.userId;
+
+          const room = await getRoom(roomId);
+          if (!room) {
+            callback({ success: false, error: 'Room not found' });
+            return;
+          }
+
+          const queueItem = (room.queue || []).find(item => item.id === itemId);
+          if (!queueItem) {
+            callback({ success: false, error: 'Queue item not found' });
+            return;
+          }
+
+          // Members can take back their own additions, roles that change media can remove anything
+          const ownItem = !!userId && queueItem.addedBy === userId;
+          if (!this.can(socket, room, ownItem ? 'queue' : 'changeMedia')) {
+            callback({ success: false, error: 'Your role cannot remove this item' });
+            return;
+          }
+
+          room.queue = (room.queue || []).filter(item => item.id !== itemId);
+          await this.saveQueue(room, userId);
+
+          callback({ success: true });
+        } catch (error) {
+          logger.error('Error removing from room queue:', error);
+          callback({ success: false, error: 'Failed to remove from queue' });
+        }
+      });
+
+      socket.on('queue_reorder', async (data, callback) => {
+        try {
+          const { roomId, itemId, position } = data;
+          const userId = socket.data.userId;
+
+          const room = await getRoom(roomId);
+          if (!room) {
+            callback({ success: false, error: 'Room not found' });
+            return;
+          }
+
+          if (!this.can(socket, room, 'changeMedia')) {
+            callback({ success: false, error: 'Your role cannot reorder the queue' });
+            return;
+          }
+
+          const queue = [...(room.queue || [])];
+          const index = queue.findIndex(item => item.id === itemId);
+          if (index === -1) {
+            callback({ success: false, error: 'Queue item not found' });
+            return;
+          }
+
+          const [queueItem] = queue.splice(index, 1);
+          queue.splice(sanitizeNumber(position, 0, queue.length), 0, queueItem!);
+          room.queue = queue;
+          await this.saveQueue(room, userId);
+
+          callback({ success: true, queue });
+        } catch (error) {
+          logger.error('Error reordering room queue:', error);
+          callback({ success: false, error: 'Failed to reorder queue' });
+        }
+      });
+
+      socket.on('set_role', async (data, callback) => {
+        try {
+          const { roomId, userId: targetUserId, role } = data;
+          const userId = socket.data.userId;
+
+          if (!userId) {
+            callback({ success: false, error: 'Not authenticated' });
+            return;
+          }
+
+          const newRole = await this.setUserRole(roomId, userId, sanitizeString(targetUserId, 50), role ? sanitizeString(role, 20) as RoomRole : null);
+          callback({ success: true, role: newRole });
+        } catch (error) {
+          logger.error('Error changing room role:', error);
+          callback({ success: false, error: error instanceof AppError ? error.message : 'Failed to change role' });
+        }
+      });
+
+      // Clients estimate their clock offset as serverTime - (sent + received) / 2 and their latency from the round trip
+      socket.on('clock_ping', (data, callback) => {
+        const pong = { clientTime: data?.clientTime, serverTime: Date.now() };
+        if (typeof callback === 'function') {
+          callback(pong);
+        } else {
+          socket.emit('clock_pong', pong);
+        }
+      });
+
       socket.on('heartbeat', async (data) => {
         try {
           const { roomId } = data;
@@ -490,7 +768,6 @@ export class WatchTogetherService {
         try {
           const { roomId, targetUserId } = data;
           const requestingUserId = socket.data.userId;
-          const isAdmin = socket.data.isAdmin;
           
           const room = await getRoom(roomId);
           if (!room) {
@@ -498,9 +775,8 @@ export class WatchTogetherService {
             return;
           }
 
-          // Only admin can send invites
-          if (!isAdmin && room.adminId !== requestingUserId) {
-            callback({ success: false, error: 'Only admin can send invites' });
+          if (!this.can(socket, room, 'invite')) {
+            callback({ success: false, error: 'Your role cannot send invites in this room' });
             return;
           }
 
@@ -560,6 +836,7 @@ export class WatchTogetherService {
                 multi.del(`${RedisKeys.rooms}${roomId}`);
                 multi.del(`${RedisKeys.roomParticipants}${roomId}`);
                 multi.del(`${RedisKeys.roomState}${roomId}`);
+                multi.del(`${RedisKeys.roomChat}${roomId}`);
                 multi.sRem(RedisKeys.activeRooms, roomId);
                 
                 await multi.exec();
@@ -580,12 +857,215 @@ export class WatchTogetherService {
     });
   }
 
-  private generateProviderUrl(providerId: string, mediaId: string): string {
-    const baseUrl = providerId === 'vidnest' ? 'https://vidnest.fun' :
-                   providerId === 'vidsrc' ? 'https://vidsrc.to' :
-                   'https://embed.stream';
-    
-    return `${baseUrl}/movie/${mediaId}`;
+  // Rooms created before the clock existed start from their last reported playback state
+  private getClock(room: Room): PlaybackClock {
+    return room.playbackClock || createPlaybackClock(
+      room.currentState?.playbackState?.currentTime ?? 0,
+      room.currentState?.playbackState?.isPlaying ?? false
+    );
+  }
+
+  // Store a new clock and mirror it into playbackState for clients that don't read the clock yet
+  private setClock(room: Room, clock: PlaybackClock): void {
+    room.playbackClock = clock;
+    room.currentState = {
+      ...room.currentState,
+      playbackState: {
+        isPlaying: clock.isPlaying,
+        currentTime: clock.anchorPosition,
+        volume: room.currentState?.playbackState?.volume ?? 1
+      },
+      timestamp: clock.anchorTime
+    };
+  }
+
+  getClockState(room: Room): PlaybackClockState {
+    return describePlaybackClock(this.getClock(room));
+  }
+
+  /**
+   * Validate a queue entry. Episodes default to S1E1 (or absolute episode 1 for anime)
+   * and TV episodes are checked against TMDB when it's configured.
+   */
+  async createQueueItem(input: any, userId: string): Promise<RoomQueueItem> {
+    const { mediaId, mediaType, season, episode, animeVariant } = sanitizeQueueItem(input);
+    if (!mediaId || !mediaType) {
+      throw new ValidationError('Queue items need a mediaId and mediaType');
+    }
+
+    const queueItem: RoomQueueItem = { id: uuidv4(), mediaId, mediaType, addedBy: userId, addedAt: Date.now() };
+
+    if (mediaType === 'tv') {
+      await metadataService.validateEpisode(mediaId, season || 1, episode || 1);
+      queueItem.season = season || 1;
+      queueItem.episode = episode || 1;
+    } else if (mediaType === 'anime') {
+      queueItem.episode = episode || 1;
+      queueItem.animeVariant = animeVariant || 'sub';
+    }
+
+    return queueItem;
+  }
+
+  // Make a queue item the room's media; returns the state fields to merge, the caller persists and broadcasts
+  private async playQueueItem(room: Room, queueItem: RoomQueueItem): Promise<Record<string, any>> {
+    room.mediaId = queueItem.mediaId;
+    room.mediaType = queueItem.mediaType;
+    if (queueItem.animeVariant) {
+      room.animeVariant = queueItem.animeVariant;
+    } else {
+      delete room.animeVariant;
+    }
+    room.currentVideo = await this.resolveCurrentVideo(queueItem.mediaId, queueItem.mediaType, room.providerId || 'vidnest');
+
+    const position = { season: queueItem.season ?? 1, episode: queueItem.episode ?? 1 };
+    return {
+      mediaId: queueItem.mediaId,
+      currentSeason: queueItem.mediaType === 'tv' ? position.season : undefined,
+      currentEpisode: queueItem.mediaType === 'movie' ? undefined : position.episode,
+      currentTime: 0,
+      providerUrl: await this.generateProviderUrl(room, room.providerId || '', queueItem.mediaId, position)
+    };
+  }
+
+  private isCurrentItem(room: Room, ended: { mediaId?: unknown; season?: unknown; episode?: unknown } | undefined): boolean {
+    if (!ended?.mediaId || String(ended.mediaId) !== room.mediaId) {
+      return false;
+    }
+
+    const state = (room.currentState || {}) as any;
+    if (room.mediaType === 'tv' && Number(ended.season) !== Number(state.currentSeason ?? 1)) {
+      return false;
+    }
+    if (room.mediaType !== 'movie' && Number(ended.episode) !== Number(state.currentEpisode ?? 1)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private async saveQueue(room: Room, userId: string): Promise<void> {
+    await setRoom(room);
+    this.io.to(room.id).emit('queue_updated', { roomId: room.id, queue: room.queue || [], userId });
+  }
+
+  // Sockets that joined count as viewers even before the stored participant list catches up
+  private getSocketRole(socket: Socket, room: Room): RoomRole | null {
+    const userId = socket.data.userId;
+    if (!userId) {
+      return null;
+    }
+
+    return getRoomRole(room, userId) ?? (socket.data.roomId === room.id ? room.roles?.[userId] ?? 'viewer' : null);
+  }
+
+  private getSocketPermissions(socket: Socket, room: Room): RoomPermission[] {
+    const role = this.getSocketRole(socket, room);
+    return role ? ROOM_ROLE_PERMISSIONS[role] : [];
+  }
+
+  private can(socket: Socket, room: Room, permission: RoomPermission): boolean {
+    return this.getSocketPermissions(socket, room).includes(permission);
+  }
+
+  // The new host's explicit role is dropped, since host is derived from adminId
+  private promoteToHost(room: Room, userId: string): void {
+    room.adminId = userId;
+    if (room.roles?.[userId]) {
+      const { [userId]: _previous, ...roles } = room.roles;
+      room.roles = roles;
+    }
+  }
+
+  // Sockets that created or joined the room count as members even before the stored participant list catches up
+  private isRoomMember(socket: Socket, room: Room, userId: string): boolean {
+    return socket.data.roomId === room.id || room.adminId === userId || ((room as WatchTogetherRoom).participants || []).includes(userId);
+  }
+
+  // Name shown next to chat messages; Supabase users don't always have one set
+  private getDisplayName(user: any): string {
+    return sanitizeString(user?.user_metadata?.username || user?.user_metadata?.full_name || user?.email?.split('@')[0], 50) || 'User';
+  }
+
+  // Embed URL for the room's media type, at the room's current episode unless a position is given
+  private async generateProviderUrl(room: Room, providerId: string, roomMediaId: string, position?: { season: number; episode: number }): Promise<string> {
+    const mediaType = room.mediaType || 'movie';
+    const mediaId = await idMappingService.toProviderId(providerId, roomMediaId, mediaType);
+    if (mediaType === 'movie') {
+      return providerRegistry.buildEmbedUrl(providerId, mediaId);
+    }
+
+    const state = (room.currentState || {}) as any;
+    const season = position?.season ?? state.currentSeason ?? 1;
+    const episode = position?.episode ?? state.currentEpisode ?? 1;
+
+    return mediaType === 'anime'
+      ? providerRegistry.buildEmbedUrl(providerId, mediaId, 'anime', undefined, episode, room.animeVariant)
+      : providerRegistry.buildEmbedUrl(providerId, mediaId, 'tv', season, episode);
+  }
+
+  // Fill the room's current video with the TMDB title; an empty title is used if metadata is unavailable
+  private async resolveCurrentVideo(mediaId: string, mediaType: MediaType, providerId: string): Promise<NonNullable<WatchTogetherRoom['currentVideo']>> {
+    let title = '';
+
+    if (metadataService.isConfigured()) {
+      try {
+        title = (await metadataService.getMetadata(mediaId, toMetadataType(mediaType))).title;
+      } catch (error) {
+        logger.warn(`Failed to resolve title for ${mediaType} ${mediaId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return {
+      id: mediaId,
+      title,
+      provider: providerId,
+      timestamp: Date.now()
+    };
+  }
+
+  // Mirror room playback to the Trakt history of every participant with a linked account
+  private scrobbleRoom(room: Room, action: TraktScrobbleAction): void {
+    if (!traktService.isConfigured() || !room.mediaId || !room.mediaType) {
+      return;
+    }
+
+    const state = (room.currentState || {}) as any;
+    const media: TraktScrobbleMedia = { tmdbId: room.mediaId, mediaType: room.mediaType };
+
+    if (room.mediaType === 'tv') {
+      // Trakt needs the exact episode
+      if (!state.currentSeason || !state.currentEpisode) {
+        return;
+      }
+      media.season = state.currentSeason;
+      media.episode = state.currentEpisode;
+    } else if (room.mediaType === 'anime') {
+      // Absolute episode, mapped to season/episode by the Trakt service
+      if (!state.currentEpisode) {
+        return;
+      }
+      media.episode = state.currentEpisode;
+    }
+
+    // The clock knows where playback is now; stored currentTime is only as fresh as the last seek
+    this.getPlaybackProgress(room.mediaId, room.mediaType, getLivePosition(this.getClock(room)))
+      .then(progress => Promise.all(room.participants.map(userId => traktService.scrobble(userId, action, media, progress))))
+      .catch(error => logger.warn(`Failed to scrobble room ${room.id}:`, error));
+  }
+
+  // Progress as a percentage of the runtime from TMDB, 0 when the runtime is unknown
+  private async getPlaybackProgress(mediaId: string, mediaType: MediaType, currentTime: number): Promise<number> {
+    if (!metadataService.isConfigured() || !currentTime) {
+      return 0;
+    }
+
+    try {
+      const { runtime } = await metadataService.getMetadata(mediaId, toMetadataType(mediaType));
+      return runtime ? (currentTime / (runtime * 60)) * 100 : 0;
+    } catch {
+      return 0;
+    }
   }
 
   private startCleanupInterval(): void {
@@ -612,6 +1092,11 @@ export class WatchTogetherService {
     return await getRoom(roomId) as WatchTogetherRoom;
   }
 
+  // Socket joins are only recorded in the participant hash, not in the stored room
+  async hasParticipant(room: Room, userId: string): Promise<boolean> {
+    return ((room as WatchTogetherRoom).participants || []).includes(userId) || (await this.getRoomParticipants(room.id)).includes(userId);
+  }
+
   async getRoomParticipants(roomId: string): Promise<string[]> {
     return (await getRoomParticipants(roomId)).map(p => p.userId);
   }
@@ -655,6 +1140,7 @@ export class WatchTogetherService {
         multi.del(`${RedisKeys.rooms}${roomId}`);
         multi.del(`${RedisKeys.roomParticipants}${roomId}`);
         multi.del(`${RedisKeys.roomState}${roomId}`);
+        multi.del(`${RedisKeys.roomChat}${roomId}`);
         multi.sRem(RedisKeys.activeRooms, roomId);
       }
       
@@ -714,11 +1200,13 @@ export class WatchTogetherService {
   async transferAdmin(roomId: string, currentAdminId: string, newAdminId: string): Promise<boolean> {
     try {
       const room = await getRoom(roomId);
-      if (!room || room.adminId !== currentAdminId) {
+      if (!room || !hasRoomPermission(room, currentAdminId, 'manageRoom')) {
         return false;
       }
 
-      room.adminId = newAdminId;
+      // The outgoing host stays on as a moderator
+      this.promoteToHost(room, newAdminId);
+      room.roles = { ...room.roles, [currentAdminId]: 'moderator' };
       room.updatedAt = new Date();
       
       await setRoom(roomId, room);
@@ -726,7 +1214,8 @@ export class WatchTogetherService {
       this.io.to(roomId).emit('admin_changed', {
         newAdmin: newAdminId,
         oldAdmin: currentAdminId,
-        participants: room.participants
+        participants: room.participants,
+        roles: room.roles
       });
 
       return true;
@@ -736,31 +1225,20 @@ export class WatchTogetherService {
     }
   }
 
-  async kickUser(roomId: string, adminId: string, userIdToKick: string): Promise<boolean> {
+  // Members can only be kicked by a role with the kick permission that outranks them, so the host can't be kicked
+  async kickUser(roomId: string, kickedBy: string, userIdToKick: string): Promise<boolean> {
     try {
       const room = await getRoom(roomId);
-      if (!room || room.adminId !== adminId) {
+      if (!room || !hasRoomPermission(room, kickedBy, 'kick') || !outranks(room, kickedBy, userIdToKick)) {
         return false;
       }
 
-      if (!room.participants.includes(userIdToKick)) {
+      if (!(await this.hasParticipant(room, userIdToKick))) {
         return false;
       }
 
       await removeRoomParticipant(roomId, userIdToKick);
       room.participants = room.participants.filter((id: string) => id !== userIdToKick);
-      
-      // If kicking the admin, transfer to someone else
-      if (room.adminId === userIdToKick && room.participants.length > 0) {
-        const newAdmin = room.participants[0];
-        (room as any).adminId = newAdmin;
-        
-        this.io.to(roomId).emit('admin_changed', {
-          newAdmin,
-          oldAdmin: userIdToKick,
-          participants: room.participants
-        });
-      }
 
       room.updatedAt = new Date();
       await setRoom(roomId, room);
@@ -770,6 +1248,14 @@ export class WatchTogetherService {
         participants: room.participants
       });
 
+      // Sockets that joined count as members, so the kicked user's sockets have to leave like on leave_room
+      const sockets = await this.io.in(roomId).fetchSockets();
+      for (const kickedSocket of sockets.filter(candidate => candidate.data.userId === userIdToKick)) {
+        kickedSocket.leave(roomId);
+        delete kickedSocket.data.roomId;
+        delete kickedSocket.data.userId;
+      }
+
       return true;
     } catch (error) {
       logger.error('Error kicking user:', error);
@@ -780,15 +1266,23 @@ export class WatchTogetherService {
     name: string;
     adminId: string;
     mediaId: string;
-    mediaType: 'movie' | 'tv';
+    mediaType: MediaType;
+    animeVariant?: AnimeVariant;
     providerId?: string;
     isPublic?: boolean;
     maxParticipants?: number;
+    queue?: any[];
   }): Promise<WatchTogetherRoom> {
     const roomId = uuidv4();
     const isPublic = roomData.isPublic ?? true;
     const maxParticipants = roomData.maxParticipants ?? 10;
     const shareableLink = isPublic ? `${process.env.FRONTEND_URL || 'http://localhost:3000'}/watch-together/${roomId}` : undefined;
+    const currentVideo = await this.resolveCurrentVideo(roomData.mediaId, roomData.mediaType, roomData.providerId || 'vidnest');
+
+    if ((roomData.queue?.length ?? 0) > ROOM_QUEUE_MAX_SIZE) {
+      throw new ValidationError(`The queue is limited to ${ROOM_QUEUE_MAX_SIZE} items`);
+    }
+    const queue = await Promise.all((roomData.queue || []).map(item => this.createQueueItem(item, roomData.adminId)));
     
     const room: WatchTogetherRoom = {
       id: roomId,
@@ -797,8 +1291,10 @@ export class WatchTogetherService {
       adminId: roomData.adminId,
       mediaId: roomData.mediaId,
       mediaType: roomData.mediaType,
+      ...(roomData.mediaType === 'anime' && { animeVariant: roomData.animeVariant || 'sub' }),
       providerId: roomData.providerId || 'vidnest',
       participants: [roomData.adminId],
+      currentVideo,
       currentState: {
         playbackState: {
           isPlaying: false,
@@ -807,6 +1303,8 @@ export class WatchTogetherService {
         },
         timestamp: Date.now()
       },
+      playbackClock: createPlaybackClock(),
+      queue,
       isPublic,
       ...(shareableLink && { shareableLink }),
       maxParticipants,
@@ -851,16 +1349,61 @@ export class WatchTogetherService {
     await removeRoomParticipant(roomId, userId);
   }
 
+  /**
+   * Grant a member a role, or revert them to viewer with null. Only the host can change roles;
+   * the host role itself only moves through transferAdmin.
+   */
+  async setUserRole(roomId: string, changedBy: string, targetUserId: string, role: RoomRole | null): Promise<RoomRole> {
+    const room = await getRoom(roomId);
+    if (!room) {
+      throw new NotFoundError('Room not found');
+    }
+
+    if (!hasRoomPermission(room, changedBy, 'manageRoom')) {
+      throw new AuthorizationError('Only the host can change roles');
+    }
+
+    if (role && !ASSIGNABLE_ROOM_ROLES.includes(role)) {
+      throw new ValidationError(`Role must be one of: ${ASSIGNABLE_ROOM_ROLES.join(', ')}`);
+    }
+
+    if (targetUserId === room.adminId) {
+      throw new ValidationError('Transfer admin to change the host');
+    }
+
+    if (!room.participants.includes(targetUserId)) {
+      throw new NotFoundError('User not in room');
+    }
+
+    // Viewer is the default, so it isn't stored
+    const { [targetUserId]: _previous, ...roles } = room.roles || {};
+    room.roles = role && role !== 'viewer' ? { ...roles, [targetUserId]: role } : roles;
+    await setRoom(roomId, room);
+
+    const newRole = role || 'viewer';
+    this.io.to(roomId).emit('role_changed', {
+      userId: targetUserId,
+      role: newRole,
+      permissions: ROOM_ROLE_PERMISSIONS[newRole],
+      changedBy
+    });
+
+    await trackWatchTogetherEvent('role_changed', roomId, changedBy, { targetUserId, role: newRole });
+
+    return newRole;
+  }
+
   async skipTime(roomId: string, adminId: string, skipType: 'forward' | 'backward', skipAmount: number): Promise<void> {
     const room = await getRoom(roomId);
     if (!room) throw new Error('Room not found');
 
-    if (room.adminId !== adminId) {
-      throw new Error('Only admin can skip time');
+    if (!hasRoomPermission(room, adminId, 'controlPlayback')) {
+      throw new AuthorizationError('Your role cannot control playback in this room');
     }
 
     const currentState = await getRoomState(roomId);
-    let newTime = currentState?.currentTime || 0;
+    const clock = this.getClock(room);
+    let newTime = getLivePosition(clock);
     
     if (skipType === 'forward') {
       newTime += skipAmount;
@@ -868,10 +1411,12 @@ export class WatchTogetherService {
       newTime = Math.max(0, newTime - skipAmount);
     }
 
+    this.setClock(room, reanchorPlaybackClock(clock, { anchorPosition: newTime }));
+
     const updatedState = {
       ...currentState,
       playbackState: {
-        isPlaying: currentState?.playbackState?.isPlaying ?? false,
+        isPlaying: clock.isPlaying,
         currentTime: newTime,
         volume: currentState?.playbackState?.volume ?? 1
       },
@@ -901,6 +1446,7 @@ export class WatchTogetherService {
       action: skipType,
       amount: skipAmount,
       newTime,
+      clock: this.getClockState(room),
       adminId,
       timestamp: new Date()
     });
@@ -910,16 +1456,18 @@ export class WatchTogetherService {
     const room = await getRoom(roomId);
     if (!room) throw new Error('Room not found');
 
-    if (room.adminId !== adminId) {
-      throw new Error('Only admin can stop playback');
+    if (!hasRoomPermission(room, adminId, 'controlPlayback')) {
+      throw new AuthorizationError('Your role cannot control playback in this room');
     }
 
     const currentState = await getRoomState(roomId);
+    this.setClock(room, reanchorPlaybackClock(this.getClock(room), { isPlaying: false }));
+
     const updatedState = {
       ...currentState,
       playbackState: {
         isPlaying: false,
-        currentTime: currentState?.playbackState?.currentTime ?? 0,
+        currentTime: room.playbackClock?.anchorPosition ?? 0,
         volume: currentState?.playbackState?.volume ?? 1
       },
       updatedAt: new Date(),
@@ -945,18 +1493,21 @@ export class WatchTogetherService {
     });
 
     this.io.to(roomId).emit('playback_paused', {
+      clock: this.getClockState(room),
       adminId,
       timestamp: new Date(),
       reason: 'admin_stopped_playback'
     });
+
+    this.scrobbleRoom({ ...room, currentState: updatedState as any }, 'pause');
   }
 
   async endSession(roomId: string, adminId: string, reason?: string): Promise<void> {
     const room = await getRoom(roomId);
     if (!room) throw new Error('Room not found');
 
-    if (room.adminId !== adminId) {
-      throw new Error('Only admin can end session');
+    if (!hasRoomPermission(room, adminId, 'manageRoom')) {
+      throw new AuthorizationError('Only the host can end the session');
     }
 
     this.io.to(roomId).emit('session_ended', {
@@ -965,6 +1516,8 @@ export class WatchTogetherService {
       endedBy: adminId
     });
 
+    this.scrobbleRoom(room, 'stop');
+
     // Use atomic operations to clean up room
     const client = getRedisClient();
     const multi = client.multi();
@@ -972,6 +1525,7 @@ export class WatchTogetherService {
     multi.del(`${RedisKeys.rooms}${roomId}`);
     multi.del(`${RedisKeys.roomParticipants}${roomId}`);
     multi.del(`${RedisKeys.roomState}${roomId}`);
+    multi.del(`${RedisKeys.roomChat}${roomId}`);
     multi.sRem(RedisKeys.activeRooms, roomId);
     
     await multi.exec();
@@ -2,6 +2,41 @@
 // TYPES FOR PROVIDERS BACKEND
 // =================================================================
 
+// Anime uses the TMDB TV id with absolute episode numbering
+export type MediaType = 'movie' | 'tv' | 'anime';
+
+export type AnimeVariant = 'sub' | 'dub';
+
+// The server owns room playback: the position is derived from an anchor instead of trusting the last client report
+export interface PlaybackClock {
+  anchorPosition: number; // Seconds into the media at anchorTime
+  anchorTime: number; // Server time (ms) the anchor was taken
+  rate: number;
+  isPlaying: boolean;
+}
+
+export interface PlaybackClockState extends PlaybackClock {
+  position: number; // Live position in seconds at serverTime
+  serverTime: number;
+}
+
+// The host is the room's adminId; other members default to viewer
+export type RoomRole = 'host' | 'moderator' | 'viewer' | 'guest';
+
+export type RoomPermission = 'controlPlayback' | 'changeMedia' | 'kick' | 'invite' | 'chat' | 'queue' | 'manageRoom';
+
+// Media waiting to play in a watch-together room
+export interface RoomQueueItem {
+  id: string;
+  mediaId: string;
+  mediaType: MediaType;
+  season?: number; // TV only
+  episode?: number; // Absolute episode for anime
+  animeVariant?: AnimeVariant;
+  addedBy: string;
+  addedAt: number;
+}
+
 export interface Room {
   id: string;
   name: string;
@@ -30,9 +65,13 @@ export interface Room {
     maxParticipants: number;
   };
   shareableLink?: string;
+  playbackClock?: PlaybackClock;
+  queue?: RoomQueueItem[];
+  roles?: Record<string, RoomRole>; // Members without an entry are viewers
   mediaId?: string;
   providerId?: string;
-  mediaType?: 'movie' | 'tv';
+  mediaType?: MediaType;
+  animeVariant?: AnimeVariant;
   isPublic?: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -243,6 +282,108 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   };
 }
 
+export type PlayerOptionName = 'autoplay' | 'startTime' | 'subtitleLang' | 'themeColor';
+
+export interface PlayerOptions {
+  autoplay?: boolean;
+  startTime?: number; // Seconds
+  subtitleLang?: string; // ISO 639-1 code, e.g. 'en'
+  themeColor?: string; // Hex colour without '#'
+}
+
+export interface IframeAttributes {
+  sandbox?: string;
+  allow?: string;
+}
+
+export interface ProviderAvailability {
+  allowedCountries?: string[]; // ISO 3166-1 alpha-2 codes; other countries are refused when set
+  blockedCountries?: string[];
+  mediaTypes?: MediaType[]; // All media types when unset
+  excludedMediaIds?: string[];
+}
+
+export type ProviderUnavailableReason = 'region_blocked' | 'media_type_unsupported' | 'variant_unsupported' | 'media_excluded' | 'id_type_unsupported';
+
+export interface AvailabilityContext {
+  country?: string | undefined;
+  mediaType?: MediaType | undefined;
+  mediaId?: string | undefined;
+  animeVariant?: AnimeVariant | undefined;
+}
+
+export type ProviderIdType = 'tmdb' | 'imdb' | 'tvdb';
+
+export interface MediaIds {
+  tmdb: string;
+  imdb?: string;
+  tvdb?: string;
+}
+
+export interface ProviderUrlTemplate {
+  path: string; // Appended to baseUrl unless absolute; placeholders: {mediaId}, {season}, {episode}, {variant}
+  idType?: ProviderIdType; // Id the provider expects; any id is passed through when unset
+  seasonBase?: 0 | 1; // Number the provider gives the first season (default 1)
+}
+
+export interface ProviderConfig {
+  id: string;
+  name: string;
+  baseUrl: string;
+  enabled: boolean;
+  iframeTemplate: string; // Must contain {embedUrl}; {attributes} renders iframeAttributes
+  iframeAttributes?: IframeAttributes;
+  playerParams?: Partial<Record<PlayerOptionName, string>>; // Query string parameter per supported option
+  healthCheckUrl?: string;
+  urlTemplates?: Partial<Record<MediaType, ProviderUrlTemplate>>; // Built-in /movie, /tv and /anime paths when unset
+  subtitleUrl?: string; // JSON track listing; {mediaType}, {mediaId}, {season} and {episode} are filled in
+  animeVariants?: AnimeVariant[]; // Declares anime support and the audio variants served
+  availability?: ProviderAvailability;
+  rateLimit?: {
+    requests: number;
+    windowMs: number;
+  };
+}
+
+export type RoutingStrategy = 'weighted' | 'sticky' | 'canary';
+
+export interface RoutingPolicy {
+  strategy: RoutingStrategy;
+  weights?: Record<string, number>; // weighted and sticky: relative share of traffic per provider
+  canary?: {
+    provider: string;
+    percentage: number; // 0-100, callers are assigned by hashing so they stay in their cohort
+  };
+}
+
+export interface RoutingDecision {
+  strategy: RoutingStrategy;
+  provider: string | null; // Tried first; null keeps the normal fallback order
+  cohort?: 'canary' | 'control';
+}
+
+export interface ProviderEmbedData {
+  provider: string;
+  embedUrl: string;
+  iframeCode: string;
+  unsupportedOptions?: PlayerOptionName[];
+}
+
+export interface MediaMetadata {
+  tmdbId: string;
+  mediaType: 'movie' | 'tv';
+  title: string;
+  year: number | null;
+  posterUrl: string | null;
+  runtime: number | null; // Minutes (per episode for TV)
+  seasonCount?: number;
+  episodeCount?: number;
+  seasons?: Array<{
+    seasonNumber: number;
+    episodeCount: number;
+  }>;
+}
+
 export interface ProviderHealth {
   name: string;
   status: 'online' | 'offline' | 'degraded';
@@ -253,6 +394,77 @@ export interface ProviderHealth {
   metadata?: Record<string, any>;
 }
 
+export interface ProviderHealthSample {
+  status: 'online' | 'offline' | 'degraded';
+  success: boolean;
+  responseTime: number;
+  statusCode?: number;
+  error?: string;
+  checkedAt: Date;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleTrack {
+  id: string;
+  language: string; // ISO 639-1
+  label: string;
+  format: 'vtt'; // Tracks are always served as WebVTT
+  sourceFormat: SubtitleFormat;
+  source: string; // Provider id, or 'index' for the subtitle index
+  url: string;
+}
+
+export interface EmbedVerification {
+  status: 'available' | 'unavailable' | 'unknown'; // unknown: the probe failed or the provider errored
+  statusCode?: number;
+  checkedAt: number; // Unix ms
+}
+
+export interface MaintenanceWindow {
+  id: string;
+  provider: string;
+  startsAt: Date;
+  endsAt: Date;
+  reason: string;
+  createdAt: Date;
+}
+
+export type StatsGranularity = 'minute' | 'hour' | 'day';
+
+export interface ProviderUsageStats {
+  provider: string;
+  mediaType: string;
+  requests: number;
+  successes: number;
+  errors: number;
+  avgLatency: number | null;
+  p50Latency: number | null;
+  p95Latency: number | null;
+  p99Latency: number | null;
+}
+
+export interface ProviderUsageBucket extends ProviderUsageStats {
+  timestamp: Date;
+}
+
+export interface TraktTokens {
+  accessToken: string;
+  refreshToken: string;
+  scope: string;
+  createdAt: number; // Unix ms
+  expiresAt: number; // Unix ms
+}
+
+export type TraktScrobbleAction = 'start' | 'pause' | 'stop';
+
+export interface TraktScrobbleMedia {
+  tmdbId: string;
+  mediaType: MediaType;
+  season?: number;
+  episode?: number; // Absolute for anime when no season is given
+}
+
 export interface WebSocketEvent {
   type: 'room_joined' | 'room_left' | 'video_played' | 'video_paused' | 'user_typing' | 'chat_message';
   roomId: string;
@@ -292,4 +504,8 @@ export interface ProxyConfig {
   successRate: number;
   responseTime: number;
   errorCount: number;
+  requestCount?: number;
+  consecutiveFailures?: number;
+  quarantinedUntil?: Date | null;
+  source?: 'env' | 'redis';
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { PlaybackClock, PlaybackClockState } from '../types/index';
+
+export type PlaybackClockChanges = Partial<Pick<PlaybackClock, 'anchorPosition' | 'rate' | 'isPlaying'>>;
+
+export const createPlaybackClock = (position: number = 0, isPlaying: boolean = false, rate: number = 1, now: number = Date.now()): PlaybackClock => ({
+  anchorPosition: Math.max(0, position),
+  anchorTime: now,
+  rate,
+  isPlaying
+});
+
+// Position in seconds the room has reached by `now`
+export const getLivePosition = (clock: PlaybackClock, now: number = Date.now()): number => {
+  if (!clock.isPlaying) {
+    return clock.anchorPosition;
+  }
+
+  const elapsed = Math.max(0, now - clock.anchorTime) / 1000;
+  return clock.anchorPosition + elapsed * clock.rate;
+};
+
+/**
+ * Take a new anchor at `now`. Unchanged fields carry over, and the position continues from the live one unless given.
+ */
+export const reanchorPlaybackClock = (
+  clock: PlaybackClock,
+  changes: PlaybackClockChanges,
+  now: number = Date.now()
+): PlaybackClock => ({
+  anchorPosition: Math.max(0, changes.anchorPosition ?? getLivePosition(clock, now)),
+  anchorTime: now,
+  rate: changes.rate ?? clock.rate,
+  isPlaying: changes.isPlaying ?? clock.isPlaying
+});
+
+export const describePlaybackClock = (clock: PlaybackClock, now: number = Date.now()): PlaybackClockState => ({
+  ...clock,
+  position: getLivePosition(clock, now),
+  serverTime: now
+});
@@ -0,0 +1,56 @@
+import { Room, RoomRole, RoomPermission } from '../types/index';
+
+export const ROOM_ROLE_PERMISSIONS: Record<RoomRole, RoomPermission[]> = {
+  host: ['controlPlayback', 'changeMedia', 'kick', 'invite', 'chat', 'queue', 'manageRoom'],
+  moderator: ['controlPlayback', 'changeMedia', 'kick', 'invite', 'chat', 'queue'],
+  viewer: ['invite', 'chat', 'queue'],
+  guest: ['chat']
+};
+
+// Members can only kick or re-role members ranked below them
+const ROLE_RANK: Record<RoomRole, number> = {
+  host: 3,
+  moderator: 2,
+  viewer: 1,
+  guest: 0
+};
+
+// Roles hosts can grant; the host role only moves with an admin transfer
+export const ASSIGNABLE_ROOM_ROLES: RoomRole[] = ['moderator', 'viewer', 'guest'];
+
+/**
+ * Role of a user in a room, or null if they aren't a member
+ */
+export const getRoomRole = (room: Room, userId: string): RoomRole | null => {
+  if (room.adminId === userId) {
+    return 'host';
+  }
+
+  if (!(room.participants || []).includes(userId)) {
+    return null;
+  }
+
+  return room.roles?.[userId] ?? 'viewer';
+};
+
+export const hasRoomPermission = (room: Room, userId: string, permission: RoomPermission): boolean => {
+  const role = getRoomRole(room, userId);
+  return !!role && ROOM_ROLE_PERMISSIONS[role].includes(permission);
+};
+
+export const outranks = (room: Room, userId: string, targetUserId: string): boolean => {
+  const role = getRoomRole(room, userId);
+  const targetRole = getRoomRole(room, targetUserId);
+  return !!role && ROLE_RANK[role] > (targetRole ? ROLE_RANK[targetRole] : -1);
+};
+
+export const getRoomPermissions = (room: Room, userId: string): RoomPermission[] => {
+  const role = getRoomRole(room, userId);
+  return role ? ROOM_ROLE_PERMISSIONS[role] : [];
+};
+
+// Moderators take over first when the host leaves, then the longest-standing member
+export const pickNextHost = (room: Room): string | undefined => {
+  const participants = (room.participants || []).filter(id => id !== room.adminId);
+  return participants.find(id => room.roles?.[id] === 'moderator') ?? participants[0];
+};
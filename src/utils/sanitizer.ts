@@ -196,12 +196,32 @@ export const sanitizeRoomData = (input: any) => {
     mediaId: sanitizeMediaId,
     mediaType: (value) => {
       const sanitized = sanitizeString(value, 10);
-      return ['movie', 'tv'].includes(sanitized) ? sanitized : null;
+      return ['movie', 'tv', 'anime'].includes(sanitized) ? sanitized : null;
+    },
+    animeVariant: (value) => {
+      const sanitized = sanitizeString(value, 3);
+      return ['sub', 'dub'].includes(sanitized) ? sanitized : null;
     },
     adminId: sanitizeUserId
   });
 };
 
+export const sanitizeQueueItem = (input: any) => {
+  return sanitizeObject(input, {
+    mediaId: sanitizeMediaId,
+    mediaType: (value) => {
+      const sanitized = sanitizeString(value, 10);
+      return ['movie', 'tv', 'anime'].includes(sanitized) ? sanitized : null;
+    },
+    season: (value) => sanitizeNumber(value, 1, 1000),
+    episode: (value) => sanitizeNumber(value, 1, 10000),
+    animeVariant: (value) => {
+      const sanitized = sanitizeString(value, 3);
+      return ['sub', 'dub'].includes(sanitized) ? sanitized : null;
+    }
+  });
+};
+
 export const isSafeInput = (input: any): boolean => {
   if (typeof input === 'string') {
     // Check for potential XSS or injection patterns